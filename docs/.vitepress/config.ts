@@ -31,6 +31,7 @@ export default {
             { text: "Introduction", link: "/getting-started/" },
             { text: "Installation", link: "/getting-started/installation.md" },
             { text: "Basic Usage", link: "/getting-started/basic-usage.md" },
+            { text: "Command Line", link: "/getting-started/cli.md" },
           ],
         },
         {
@@ -47,8 +48,25 @@ export default {
               text: "estimateImpactRange",
               link: "/api/estimate-impact-range.md",
             },
+            {
+              text: "estimateImpactDistribution",
+              link: "/api/estimate-impact-distribution.md",
+            },
+            {
+              text: "estimateImpactAsync",
+              link: "/api/estimate-impact-async.md",
+            },
+            {
+              text: "validateImpactInputs",
+              link: "/api/validate-impact-inputs.md",
+            },
+            { text: "Calculation Trace", link: "/api/calculation-trace.md" },
             { text: "aggregateImpacts", link: "/api/aggregate-impacts.md" },
             { text: "usage Helpers", link: "/api/usage-helpers.md" },
+            {
+              text: "Provider Adapters",
+              link: "/api/provider-adapters.md",
+            },
           ],
         },
         {
@@ -90,6 +108,22 @@ export default {
               text: "Region & Grid Intensity",
               link: "/input-options/region-grid.md",
             },
+            {
+              text: "Grid Zones",
+              link: "/input-options/grid-zones.md",
+            },
+            {
+              text: "Cloud Regions",
+              link: "/input-options/cloud-regions.md",
+            },
+            {
+              text: "Hardware Profiles",
+              link: "/input-options/hardware-profiles.md",
+            },
+            {
+              text: "Power Model",
+              link: "/input-options/power-model.md",
+            },
             {
               text: "Throughput Configuration",
               link: "/input-options/throughput-config.md",
@@ -117,10 +151,44 @@ export default {
               text: "Batch Aggregation",
               link: "/advanced/batch-aggregation.md",
             },
+            {
+              text: "Footprint Tracker",
+              link: "/advanced/footprint-tracker.md",
+            },
+            { text: "Budgets", link: "/advanced/budgets.md" },
+            { text: "Reports", link: "/advanced/reports.md" },
+            {
+              text: "Scenario Comparison",
+              link: "/advanced/scenario-comparison.md",
+            },
+            {
+              text: "Market-Based Accounting",
+              link: "/advanced/market-based-accounting.md",
+            },
+            {
+              text: "Embodied Carbon",
+              link: "/advanced/embodied-carbon.md",
+            },
+            {
+              text: "Water Footprint",
+              link: "/advanced/water-footprint.md",
+            },
             {
               text: "Dynamic Grid Intensity",
               link: "/advanced/dynamic-grid-intensity.md",
             },
+            {
+              text: "Grid Intensity Datasets",
+              link: "/advanced/grid-datasets.md",
+            },
+            {
+              text: "Time-resolved Grid Intensity",
+              link: "/advanced/time-resolved-grid-intensity.md",
+            },
+            {
+              text: "Carbon-aware Placement",
+              link: "/advanced/carbon-aware-placement.md",
+            },
             {
               text: "Custom Grid Resolvers",
               link: "/advanced/custom-grid-resolvers.md",
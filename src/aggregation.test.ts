@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import {
+  ImpactValidationError,
+  aggregateImpactsBy,
+  estimateImpact,
+  usage,
+  type AggregationRecord,
+} from "./index";
+
+const record = (
+  seconds: number,
+  timestamp: number,
+  tags: Record<string, string> = {},
+): AggregationRecord => {
+  const requestUsage = usage.chat(1000, 200);
+  return {
+    result: estimateImpact({
+      gpuPowerW: 300,
+      processingTimeSeconds: seconds,
+      region: "de",
+      usage: requestUsage,
+    }),
+    usage: requestUsage,
+    model: "m1",
+    region: " DE ",
+    tags,
+    timestamp,
+  };
+};
+
+const records = [
+  record(10, Date.UTC(2025, 2, 1, 22, 30), { team: "search" }),
+  record(20, Date.UTC(2025, 2, 1, 23, 30), { team: "search" }),
+  record(30, Date.UTC(2025, 2, 2, 9), { team: "chat" }),
+];
+
+describe("aggregateImpactsBy", () => {
+  it("groups by several dimensions with sorted, stable ids", () => {
+    const { groups } = aggregateImpactsBy(records, {
+      groupBy: ["region", "tag:team"],
+    });
+    expect(groups.map((group) => group.id)).toEqual([
+      "region=de|tag:team=chat",
+      "region=de|tag:team=search",
+    ]);
+    expect(groups[1]?.key).toEqual({ region: "de", "tag:team": "search" });
+    expect(groups[1]?.count).toBe(2);
+  });
+
+  it("buckets timestamps in the requested time zone", () => {
+    const utc = aggregateImpactsBy(records, { groupBy: "day" });
+    expect(utc.groups.map((group) => [group.id, group.count])).toEqual([
+      ["day=2025-03-01", 2],
+      ["day=2025-03-02", 1],
+    ]);
+    const berlin = aggregateImpactsBy(records, {
+      groupBy: "hour",
+      timeZone: "Europe/Berlin",
+    });
+    expect(berlin.groups.map((group) => group.key.hour)).toEqual([
+      "2025-03-01T23",
+      "2025-03-02T00",
+      "2025-03-02T10",
+    ]);
+  });
+
+  it("reports per-group statistics and intensity metrics", () => {
+    const { total, groups } = aggregateImpactsBy(records, {
+      groupBy: "model",
+    });
+    const [group] = groups;
+    const energies = records.map((r) => r.result.energyKwh);
+    expect(group?.statistics.energyKwh.min).toBe(energies[0]);
+    expect(group?.statistics.energyKwh.max).toBe(energies[2]);
+    expect(group?.statistics.energyKwh.median).toBe(energies[1]);
+    expect(total.intensity.tokens).toBe(3600);
+    expect(total.intensity.co2GramsPer1kTokens).toBeCloseTo(
+      (total.co2Grams / 3600) * 1000,
+      12,
+    );
+  });
+
+  it("groups missing values under unknown and rejects an empty groupBy", () => {
+    const { groups } = aggregateImpactsBy([{ result: records[0]!.result }], {
+      groupBy: ["model", "tag:team", "month"],
+    });
+    expect(groups[0]?.id).toBe("model=unknown|tag:team=unknown|month=unknown");
+    expect(() => aggregateImpactsBy(records, { groupBy: [] })).toThrow(
+      ImpactValidationError,
+    );
+    expect(() =>
+      aggregateImpactsBy(records, { groupBy: "day", timeZone: "Mars/Base" }),
+    ).toThrow(ImpactValidationError);
+  });
+});
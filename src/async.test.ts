@@ -0,0 +1,105 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  ImpactValidationError,
+  createGridIntensityCache,
+  estimateImpact,
+  estimateImpactAsync,
+  usage,
+  type AsyncImpactInputs,
+} from "./index";
+
+const input: AsyncImpactInputs = {
+  gpuPowerW: 300,
+  region: "de",
+  timestamp: Date.UTC(2025, 5, 1, 12),
+  usage: usage.chat(1000, 200),
+  throughput: { tokensPerSecond: 100 },
+};
+const fallback = estimateImpact({ ...input, gridIntensityResolver: undefined });
+
+describe("estimateImpactAsync", () => {
+  it("uses the resolved intensity with the resolver as source", async () => {
+    const resolver = vi.fn(() => Promise.resolve(123));
+    const result = await estimateImpactAsync(
+      { ...input, gridIntensityResolver: resolver },
+      { cache: false },
+    );
+    expect(resolver).toHaveBeenCalledWith({
+      region: "de",
+      timestamp: input.timestamp,
+    });
+    expect(result.gridCarbonIntensityGPerKwh).toBe(123);
+    expect(result.gridDatasetId).toBeUndefined();
+    expect(result.notes.at(-1)).toBe("Grid intensity source: resolver");
+  });
+
+  it("reuses cached values within a time bucket", async () => {
+    const resolver = vi.fn(() => Promise.resolve(200));
+    const cache = createGridIntensityCache();
+    await estimateImpactAsync(
+      { ...input, gridIntensityResolver: resolver },
+      { cache },
+    );
+    const second = await estimateImpactAsync(
+      {
+        ...input,
+        timestamp: Date.UTC(2025, 5, 1, 12, 30),
+        gridIntensityResolver: resolver,
+      },
+      { cache },
+    );
+    expect(resolver).toHaveBeenCalledTimes(1);
+    expect(second.gridCarbonIntensityGPerKwh).toBe(200);
+    expect(second.notes.at(-1)).toBe(
+      "Grid intensity source: resolver (cached)",
+    );
+  });
+
+  it("falls back to the static dataset on timeout", async () => {
+    const result = await estimateImpactAsync(
+      {
+        ...input,
+        gridIntensityResolver: () => new Promise<number>(() => undefined),
+      },
+      { cache: false, timeoutMs: 10 },
+    );
+    expect(result.gridCarbonIntensityGPerKwh).toBe(
+      fallback.gridCarbonIntensityGPerKwh,
+    );
+    expect(result.gridDatasetId).toBe(fallback.gridDatasetId);
+    expect(result.notes.at(-1)).toBe(
+      "Grid intensity source: static dataset (resolver failed: timed out after 10ms)",
+    );
+  });
+
+  it("falls back to the static dataset when the resolver rejects", async () => {
+    const result = await estimateImpactAsync(
+      {
+        ...input,
+        gridIntensityResolver: () => Promise.reject(new Error("offline")),
+      },
+      { cache: false },
+    );
+    expect(result.gridCarbonIntensityGPerKwh).toBe(
+      fallback.gridCarbonIntensityGPerKwh,
+    );
+    expect(result.notes.at(-1)).toBe(
+      "Grid intensity source: static dataset (resolver failed: offline)",
+    );
+  });
+
+  it("validates strict inputs before calling the resolver", async () => {
+    const resolver = vi.fn(() => Promise.resolve(123));
+    await expect(
+      estimateImpactAsync(
+        {
+          ...input,
+          gridCarbonIntensityGPerKwh: -5,
+          gridIntensityResolver: resolver,
+        },
+        { cache: false, strict: true },
+      ),
+    ).rejects.toThrow(ImpactValidationError);
+    expect(resolver).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,137 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  BudgetExceededError,
+  BudgetManager,
+  estimateImpact,
+  setWarningSink,
+  usage,
+  type BudgetThresholdEvent,
+  type ImpactInputs,
+} from "./index";
+
+const input: ImpactInputs = {
+  gpuPowerW: 300,
+  region: "fr",
+  usage: usage.chat(1000, 200),
+  throughput: { tokensPerSecond: 100 },
+};
+const result = estimateImpact(input);
+
+function monthly(co2Grams: number, now: () => number) {
+  return new BudgetManager({
+    budgets: [
+      { id: "acme", labels: { tenant: "acme" }, period: "month", co2Grams },
+    ],
+    now,
+  });
+}
+
+afterEach(() => setWarningSink());
+
+describe("BudgetManager", () => {
+  it("resets usage when the injected clock enters a new period", () => {
+    let now = Date.UTC(2025, 5, 30, 23);
+    const budgets = monthly(1000, () => now);
+
+    budgets.record(result, { tenant: "acme" });
+    expect(budgets.getStatus("acme")?.period).toBe("2025-06");
+    expect(budgets.getStatus("acme")?.co2Grams?.used).toBeCloseTo(
+      result.totalCo2Grams,
+    );
+
+    now = Date.UTC(2025, 6, 1, 0);
+    const status = budgets.getStatus("acme");
+    expect(status?.period).toBe("2025-07");
+    expect(status?.co2Grams?.used).toBe(0);
+  });
+
+  it("counts only results with matching labels", () => {
+    const budgets = monthly(1000, () => Date.UTC(2025, 5, 1));
+    expect(budgets.record(result, { tenant: "other" })).toEqual([]);
+    expect(budgets.getStatus("acme")?.co2Grams?.used).toBe(0);
+  });
+
+  it("ignores results dated before the current period", () => {
+    const warnings: string[] = [];
+    setWarningSink((warning) => warnings.push(warning.code));
+    const budgets = monthly(1000, () => Date.UTC(2025, 5, 15));
+
+    budgets.record(result, { tenant: "acme" }, Date.UTC(2025, 5, 10));
+    budgets.record(result, { tenant: "acme" }, Date.UTC(2025, 5, 11));
+    budgets.record(result, { tenant: "acme" }, Date.UTC(2025, 4, 31));
+
+    const status = budgets.getStatus("acme");
+    expect(status?.period).toBe("2025-06");
+    expect(status?.co2Grams?.used).toBeCloseTo(result.totalCo2Grams * 2);
+    expect(warnings).toEqual(["ignored"]);
+  });
+
+  it("counts future-dated results in the current period", () => {
+    const warnings: string[] = [];
+    setWarningSink((warning) => warnings.push(warning.code));
+    let now = Date.UTC(2025, 5, 15);
+    const budgets = monthly(1000, () => now);
+
+    budgets.record(result, { tenant: "acme" }, Date.UTC(2025, 6, 2));
+    budgets.record(result, { tenant: "acme" });
+    let status = budgets.getStatus("acme");
+    expect(status?.period).toBe("2025-06");
+    expect(status?.co2Grams?.used).toBeCloseTo(result.totalCo2Grams * 2);
+
+    now = Date.UTC(2025, 6, 2);
+    budgets.record(result, { tenant: "acme" });
+    status = budgets.getStatus("acme");
+    expect(status?.period).toBe("2025-07");
+    expect(status?.co2Grams?.used).toBeCloseTo(result.totalCo2Grams);
+    expect(warnings).toEqual([]);
+  });
+
+  it("fires each threshold once per period", () => {
+    let now = Date.UTC(2025, 5, 1);
+    const onThreshold = vi.fn<(event: BudgetThresholdEvent) => void>();
+    const budgets = new BudgetManager({
+      budgets: [
+        { id: "acme", period: "month", co2Grams: result.totalCo2Grams * 3.9 },
+      ],
+      onThreshold,
+      now: () => now,
+    });
+
+    budgets.record(result);
+    expect(onThreshold).not.toHaveBeenCalled();
+    budgets.record(result);
+    expect(onThreshold.mock.calls.map(([event]) => event.threshold)).toEqual([
+      0.5,
+    ]);
+    budgets.record(result);
+    budgets.record(result);
+    expect(onThreshold.mock.calls.map(([event]) => event.threshold)).toEqual([
+      0.5, 0.8, 1,
+    ]);
+
+    now = Date.UTC(2025, 6, 1);
+    budgets.record(result);
+    budgets.record(result);
+    expect(onThreshold).toHaveBeenCalledTimes(4);
+  });
+
+  it("rejects requests projected to exceed a hard budget", () => {
+    const budgets = new BudgetManager({
+      budgets: [
+        {
+          id: "acme",
+          period: "day",
+          co2Grams: result.totalCo2Grams * 1.5,
+          mode: "hard",
+        },
+      ],
+      now: () => Date.UTC(2025, 5, 1),
+    });
+
+    budgets.record(budgets.preflight(input));
+    expect(() => budgets.preflight(input)).toThrow(BudgetExceededError);
+    expect(budgets.getStatus("acme")?.co2Grams?.used).toBeCloseTo(
+      result.totalCo2Grams,
+    );
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import {
+  ImpactValidationError,
+  estimateImpact,
+  usage,
+  type ThroughputConfig,
+  type Usage,
+} from "./index";
+
+const seconds = (requestUsage: Usage, throughput: ThroughputConfig) =>
+  estimateImpact({ gpuPowerW: 300, usage: requestUsage, throughput })
+    .processingTimeSeconds;
+
+describe("pixel-based categories", () => {
+  it("times video generation by total pixels across frames", () => {
+    expect(
+      seconds(usage.videoGeneration(1280, 720, 24, 5, 2), {
+        videoPixelsPerSecond: 1280 * 720 * 24,
+      }),
+    ).toBe(10);
+  });
+
+  it("times edits at the edit rate, falling back to the generation rate", () => {
+    const edit = usage.imageEdit(1024, 1024, 2);
+    expect(seconds(edit, { editPixelsPerSecond: 1024 * 1024 })).toBe(2);
+    expect(seconds(edit, { pixelsPerSecond: 2 * 1024 * 1024 })).toBe(1);
+  });
+
+  it("times vision-only models at the vision rate", () => {
+    expect(
+      seconds(usage.imageUnderstanding(640, 480, 10), {
+        visionPixelsPerSecond: 640 * 480 * 20,
+      }),
+    ).toBe(0.5);
+    expect(() =>
+      seconds(usage.imageUnderstanding(640, 480), {
+        pixelsPerSecond: 1_000_000,
+      }),
+    ).toThrow(/throughput.visionPixelsPerSecond/);
+  });
+});
+
+describe("rerank", () => {
+  it("times query-document pairs without token counts", () => {
+    expect(
+      seconds(usage.rerank(100, 2), { rerankDocumentsPerSecond: 400 }),
+    ).toBe(0.5);
+  });
+
+  it("uses token throughput and per-token energy with token counts", () => {
+    const requestUsage = usage.rerank(100, 1, 5000);
+    expect(
+      seconds(requestUsage, {
+        inputTokensPerSecond: 10_000,
+        rerankDocumentsPerSecond: 1,
+      }),
+    ).toBe(0.5);
+    const { energyKwh } = estimateImpact({
+      usage: requestUsage,
+      throughput: { energyJoulesPerInputToken: 0.36 },
+    });
+    expect(energyKwh).toBeCloseTo((5000 * 0.36) / 3_600_000, 12);
+  });
+
+  it("rejects an empty document set", () => {
+    expect(() =>
+      seconds(usage.rerank(0), { rerankDocumentsPerSecond: 10 }),
+    ).toThrow(ImpactValidationError);
+  });
+});
+
+describe("moderation", () => {
+  it("costs text as prompt tokens and images through the vision encoder", () => {
+    const { processingTimeSeconds, usageBreakdown } = estimateImpact({
+      gpuPowerW: 300,
+      usage: usage.moderation(2000, 4),
+      throughput: { inputTokensPerSecond: 4000, imageInputsPerSecond: 8 },
+    });
+    expect(processingTimeSeconds).toBe(1);
+    expect(Object.keys(usageBreakdown?.components ?? {})).toEqual([
+      "input",
+      "imageInput",
+    ]);
+    expect(() =>
+      seconds(usage.moderation(2000, 4), { inputTokensPerSecond: 4000 }),
+    ).toThrow("throughput.imageInputsPerSecond is required for images.");
+  });
+});
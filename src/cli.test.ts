@@ -0,0 +1,128 @@
+import { spawnSync } from "node:child_process";
+import { createRequire } from "node:module";
+import { fileURLToPath } from "node:url";
+import { describe, expect, it } from "vitest";
+import {
+  estimateImpact,
+  estimateImpactRange,
+  type ImpactResult,
+} from "./index";
+
+// The CLI runs on import, so each case runs it in a child process.
+const viteNode = createRequire(import.meta.url).resolve(
+  "vite-node/vite-node.mjs",
+);
+const cliPath = fileURLToPath(new URL("./cli.ts", import.meta.url));
+
+function run(args: string[], stdin?: string) {
+  const { status, stdout, stderr } = spawnSync(
+    process.execPath,
+    [viteNode, cliPath, ...args],
+    { input: stdin, encoding: "utf8", timeout: 30_000 },
+  );
+  return { status, stdout, stderr };
+}
+
+const flags = ["--gpu-power-w", "300", "--processing-time", "10"];
+
+describe("ai-footprint CLI", { timeout: 60_000 }, () => {
+  it("builds inputs from flags", () => {
+    const { status, stdout } = run([
+      "estimate",
+      ...flags,
+      "--region",
+      "de",
+      "--pue",
+      "1.2",
+      "--format",
+      "json",
+    ]);
+    expect(status).toBe(0);
+    const result = JSON.parse(stdout) as ImpactResult;
+    expect(result.energyKwh).toBe(
+      estimateImpact({
+        gpuPowerW: 300,
+        processingTimeSeconds: 10,
+        region: "de",
+        efficiency: { pue: 1.2 },
+      }).energyKwh,
+    );
+  });
+
+  it("exits with 2 on bad usage", () => {
+    const notANumber = run(["estimate", "--gpu-power-w", "lots"]);
+    expect(notANumber.status).toBe(2);
+    expect(notANumber.stderr).toContain(
+      '--gpu-power-w must be a number, got "lots".',
+    );
+    expect(notANumber.stderr).toContain("Run ai-footprint --help for usage.");
+    expect(run(["estimate", "--no-such-flag"]).status).toBe(2);
+    expect(run(["forecast"]).status).toBe(2);
+  });
+
+  it("parses --range specs and rejects malformed ones", () => {
+    const { status, stdout } = run([
+      "range",
+      ...flags,
+      "--range",
+      "pue=1.1:1.3",
+      "--range",
+      "gpuPowerW=280:350",
+      "--format",
+      "json",
+    ]);
+    expect(status).toBe(0);
+    const expected = estimateImpactRange(
+      { gpuPowerW: 300, processingTimeSeconds: 10 },
+      { pue: { min: 1.1, max: 1.3 }, gpuPowerW: { min: 280, max: 350 } },
+    );
+    expect(JSON.parse(stdout)).toMatchObject({
+      energyKwhMin: expected.energyKwhMin,
+      energyKwhMax: expected.energyKwhMax,
+    });
+
+    const malformed = run(["range", ...flags, "--range", "pue=:1.3"]);
+    expect(malformed.status).toBe(2);
+    expect(malformed.stderr).toContain("--range must look like name=min:max");
+    expect(run(["range", ...flags, "--range", "pue=1.1:high"]).status).toBe(2);
+    expect(run(["range", ...flags]).status).toBe(2);
+  });
+
+  it("reports invalid batch lines and exits with 1", () => {
+    const lines = [
+      JSON.stringify({ id: 1, processingTimeSeconds: 10 }),
+      "not json",
+      "",
+      JSON.stringify({ id: 2, gpuPowerW: -1 }),
+    ].join("\n");
+    const { status, stdout, stderr } = run(
+      ["batch", "-", "--gpu-power-w", "300"],
+      lines,
+    );
+    expect(status).toBe(1);
+    const results = stdout
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line) as { line: number; id?: string });
+    expect(results.map(({ line, id }) => [line, id])).toEqual([[1, "1"]]);
+    expect(stderr).toContain("line 2: ");
+    expect(stderr).toContain("line 4: gpuPowerW must be a positive number.");
+
+    const valid = run(
+      ["batch", "-", "--gpu-power-w", "300"],
+      lines.split("\n")[0],
+    );
+    expect(valid.status).toBe(0);
+  });
+
+  it("quotes CSV cells with commas and quotes", () => {
+    const { status, stdout } = run(
+      ["batch", "-", ...flags, "--format", "csv"],
+      JSON.stringify({ id: 'eval, "fast"' }),
+    );
+    expect(status).toBe(0);
+    const [header, row] = stdout.trim().split("\n");
+    expect(header?.startsWith("line,id,category,energyKwh")).toBe(true);
+    expect(row?.startsWith('1,"eval, ""fast""",,')).toBe(true);
+  });
+});
@@ -0,0 +1,576 @@
+#!/usr/bin/env node
+import { createReadStream, readFileSync } from "node:fs";
+import { createInterface } from "node:readline";
+import { parseArgs } from "node:util";
+import {
+  DEFAULT_GRID_CARBON_G_PER_KWH,
+  estimateImpact,
+  estimateImpactRange,
+  getGridIntensityDataset,
+  listRegionAliases,
+} from "./index";
+import type {
+  ImpactInputs,
+  ImpactRangeResult,
+  ImpactResult,
+  ModelCategory,
+  UncertaintyRanges,
+  Usage,
+} from "./index";
+
+type OutputFormat = "table" | "json" | "csv";
+
+type Row = Record<string, string | number | undefined>;
+
+const HELP = `Usage: ai-footprint <command> [options]
+
+Commands:
+  estimate            Estimate one request from flags
+  range               Estimate with --range name=min:max uncertainty
+  batch <file|->      Estimate every JSONL line (ImpactInputs per line)
+  regions             List grid intensities and region aliases
+
+Input options (estimate, range):
+  --config <file>               JSON file of ImpactInputs defaults
+  --hardware <id>               Hardware profile id
+  --gpu-power-w <W>             Average accelerator power
+  --cpu-power-w <W>             CPU power
+  --network-power-w <W>         Network power
+  --device-count <n>            Devices serving the request
+  --utilization <0-1>           Average per-device utilization
+  --region <code>               Region, grid zone or cloud region
+  --grid-intensity <g/kWh>      Explicit grid intensity
+  --grid-dataset <id|year>      Grid intensity dataset
+  --category <category>         Usage category, e.g. chat.completions
+  --input-tokens <n>            Input tokens
+  --output-tokens <n>           Output tokens
+  --audio-seconds <s>           Audio duration
+  --width <px> --height <px>    Image size
+  --images <n>                  Number of images
+  --fps <n> --duration-seconds <s>
+                                Video frame rate and length
+  --videos <n>                  Number of videos
+  --documents <n> --queries <n> Rerank documents and queries
+  --tokens-per-second <n>       Token throughput
+  --input-tokens-per-second <n> Prefill throughput
+  --output-tokens-per-second <n>
+                                Decode throughput
+  --ttft <s>                    Time to first token
+  --audio-seconds-per-second <n>
+  --pixels-per-second <n>
+  --edit-pixels-per-second <n>
+  --vision-pixels-per-second <n>
+  --video-pixels-per-second <n>
+  --rerank-documents-per-second <n>
+  --processing-time <s>         Measured processing time
+  --energy-kwh <kWh>            Energy override
+  --pue <x>                     Power Usage Effectiveness
+  --overhead <x>                Overhead factor
+  --efficiency-factor <x>       Efficiency factor
+  --batch-size <n>              Batch size
+  --strict                      Reject unknown regions and clamped values
+
+Other options:
+  --range <name=min:max>        Uncertainty range (repeatable), e.g. pue=1.1:1.4
+  --dataset <id|year>           Dataset for the regions command
+  --format <table|json|csv>     Output format (batch default: json lines)
+  -h, --help                    Show this help
+`;
+
+const OPTIONS = {
+  config: { type: "string" },
+  hardware: { type: "string" },
+  "gpu-power-w": { type: "string" },
+  "cpu-power-w": { type: "string" },
+  "network-power-w": { type: "string" },
+  "device-count": { type: "string" },
+  utilization: { type: "string" },
+  region: { type: "string" },
+  "grid-intensity": { type: "string" },
+  "grid-dataset": { type: "string" },
+  category: { type: "string" },
+  "input-tokens": { type: "string" },
+  "output-tokens": { type: "string" },
+  "audio-seconds": { type: "string" },
+  width: { type: "string" },
+  height: { type: "string" },
+  images: { type: "string" },
+  fps: { type: "string" },
+  "duration-seconds": { type: "string" },
+  videos: { type: "string" },
+  documents: { type: "string" },
+  queries: { type: "string" },
+  "tokens-per-second": { type: "string" },
+  "input-tokens-per-second": { type: "string" },
+  "output-tokens-per-second": { type: "string" },
+  ttft: { type: "string" },
+  "audio-seconds-per-second": { type: "string" },
+  "pixels-per-second": { type: "string" },
+  "edit-pixels-per-second": { type: "string" },
+  "vision-pixels-per-second": { type: "string" },
+  "video-pixels-per-second": { type: "string" },
+  "rerank-documents-per-second": { type: "string" },
+  "processing-time": { type: "string" },
+  "energy-kwh": { type: "string" },
+  pue: { type: "string" },
+  overhead: { type: "string" },
+  "efficiency-factor": { type: "string" },
+  "batch-size": { type: "string" },
+  strict: { type: "boolean" },
+  range: { type: "string", multiple: true },
+  dataset: { type: "string" },
+  format: { type: "string" },
+  help: { type: "boolean", short: "h" },
+} as const;
+
+type ParsedValues = ReturnType<
+  typeof parseArgs<{ options: typeof OPTIONS; allowPositionals: true }>
+>["values"];
+
+/**
+ * Bad command-line usage; printed with the help hint and exit code 2.
+ */
+class UsageError extends Error {}
+
+const RESULT_COLUMNS = [
+  "category",
+  "energyKwh",
+  "co2Grams",
+  "co2GramsMarketBased",
+  "embodiedCo2Grams",
+  "totalCo2Grams",
+  "waterLiters",
+  "gridCarbonIntensityGPerKwh",
+  "effectivePowerW",
+  "processingTimeSeconds",
+] as const;
+
+function toNumber(flag: string, value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const number = Number(value);
+  if (value.trim() === "" || !Number.isFinite(number)) {
+    throw new UsageError(`--${flag} must be a number, got "${value}".`);
+  }
+  return number;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Merges `override` into `base`, recursing into nested option groups
+ * (efficiency, throughput, usage, ...). Undefined values do not override.
+ */
+function mergeInputs(
+  base: Record<string, unknown>,
+  override: Record<string, unknown>,
+): Record<string, unknown> {
+  const merged: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    if (value === undefined) continue;
+    const current = merged[key];
+    merged[key] =
+      isPlainObject(current) && isPlainObject(value)
+        ? mergeInputs(current, value)
+        : value;
+  }
+  return merged;
+}
+
+function readJsonObject(path: string): Record<string, unknown> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(path, "utf8"));
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new UsageError(`Cannot read ${path}: ${reason}`);
+  }
+  if (!isPlainObject(parsed)) {
+    throw new UsageError(`${path} must contain a JSON object.`);
+  }
+  return parsed;
+}
+
+/**
+ * Usage fields from flags. The category may come from the config file
+ * instead, so it is not required here.
+ */
+function buildUsage(values: ParsedValues): Partial<Usage> {
+  return {
+    category: values.category as ModelCategory | undefined,
+    inputTokens: toNumber("input-tokens", values["input-tokens"]),
+    outputTokens: toNumber("output-tokens", values["output-tokens"]),
+    audioSeconds: toNumber("audio-seconds", values["audio-seconds"]),
+    width: toNumber("width", values.width),
+    height: toNumber("height", values.height),
+    images: toNumber("images", values.images),
+    fps: toNumber("fps", values.fps),
+    durationSeconds: toNumber("duration-seconds", values["duration-seconds"]),
+    videos: toNumber("videos", values.videos),
+    documents: toNumber("documents", values.documents),
+    queries: toNumber("queries", values.queries),
+  } as Partial<Usage>;
+}
+
+/**
+ * Builds `ImpactInputs` from the config file defaults and the flags.
+ */
+function buildInputs(values: ParsedValues): ImpactInputs {
+  const defaults = values.config ? readJsonObject(values.config) : {};
+  const flags: Record<string, unknown> = {
+    hardware: values.hardware,
+    gpuPowerW: toNumber("gpu-power-w", values["gpu-power-w"]),
+    cpuPowerW: toNumber("cpu-power-w", values["cpu-power-w"]),
+    networkPowerW: toNumber("network-power-w", values["network-power-w"]),
+    powerModel: {
+      deviceCount: toNumber("device-count", values["device-count"]),
+      utilization: toNumber("utilization", values.utilization),
+    },
+    region: values.region,
+    gridCarbonIntensityGPerKwh: toNumber(
+      "grid-intensity",
+      values["grid-intensity"],
+    ),
+    gridDataset: values["grid-dataset"],
+    usage: buildUsage(values),
+    throughput: {
+      tokensPerSecond: toNumber(
+        "tokens-per-second",
+        values["tokens-per-second"],
+      ),
+      inputTokensPerSecond: toNumber(
+        "input-tokens-per-second",
+        values["input-tokens-per-second"],
+      ),
+      outputTokensPerSecond: toNumber(
+        "output-tokens-per-second",
+        values["output-tokens-per-second"],
+      ),
+      timeToFirstTokenSeconds: toNumber("ttft", values.ttft),
+      audioSecondsPerSecond: toNumber(
+        "audio-seconds-per-second",
+        values["audio-seconds-per-second"],
+      ),
+      pixelsPerSecond: toNumber(
+        "pixels-per-second",
+        values["pixels-per-second"],
+      ),
+      editPixelsPerSecond: toNumber(
+        "edit-pixels-per-second",
+        values["edit-pixels-per-second"],
+      ),
+      visionPixelsPerSecond: toNumber(
+        "vision-pixels-per-second",
+        values["vision-pixels-per-second"],
+      ),
+      videoPixelsPerSecond: toNumber(
+        "video-pixels-per-second",
+        values["video-pixels-per-second"],
+      ),
+      rerankDocumentsPerSecond: toNumber(
+        "rerank-documents-per-second",
+        values["rerank-documents-per-second"],
+      ),
+    },
+    processingTimeSeconds: toNumber(
+      "processing-time",
+      values["processing-time"],
+    ),
+    energy: { energyKwh: toNumber("energy-kwh", values["energy-kwh"]) },
+    efficiency: {
+      pue: toNumber("pue", values.pue),
+      overheadFactor: toNumber("overhead", values.overhead),
+      efficiencyFactor: toNumber(
+        "efficiency-factor",
+        values["efficiency-factor"],
+      ),
+      batchSize: toNumber("batch-size", values["batch-size"]),
+    },
+  };
+  return dropEmptyGroups(mergeInputs(defaults, flags)) as ImpactInputs;
+}
+
+/**
+ * Removes option groups left empty by unset flags, so an empty
+ * `energy: {}` does not count as an energy override.
+ */
+function dropEmptyGroups(
+  input: Record<string, unknown>,
+): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(input).filter(
+      ([, value]) =>
+        !isPlainObject(value) ||
+        Object.values(value).some((field) => field !== undefined),
+    ),
+  );
+}
+
+function parseRanges(specs: string[] | undefined): UncertaintyRanges {
+  const ranges: Record<string, { min?: number; max?: number }> = {};
+  for (const spec of specs ?? []) {
+    const match = /^([A-Za-z]+)=([^:]+):([^:]+)$/.exec(spec);
+    if (!match) {
+      throw new UsageError(
+        `--range must look like name=min:max, got "${spec}".`,
+      );
+    }
+    const [, name = "", min = "", max = ""] = match;
+    ranges[name] = {
+      min: toNumber("range", min),
+      max: toNumber("range", max),
+    };
+  }
+  if (Object.keys(ranges).length === 0) {
+    throw new UsageError("range needs at least one --range name=min:max.");
+  }
+  return ranges as UncertaintyRanges;
+}
+
+function parseFormat(value: string | undefined, fallback: OutputFormat) {
+  const format = value ?? fallback;
+  if (format !== "table" && format !== "json" && format !== "csv") {
+    throw new UsageError(`--format must be table, json or csv.`);
+  }
+  return format;
+}
+
+function toResultRow(result: ImpactResult): Row {
+  return Object.fromEntries(
+    RESULT_COLUMNS.map((column) => [column, result[column]]),
+  );
+}
+
+function toRangeRow(result: ImpactRangeResult): Row {
+  return {
+    ...toResultRow(result.base),
+    energyKwhMin: result.energyKwhMin,
+    energyKwhMax: result.energyKwhMax,
+    co2GramsMin: result.co2GramsMin,
+    co2GramsMax: result.co2GramsMax,
+  };
+}
+
+function formatCell(value: string | number | undefined): string {
+  if (value === undefined) return "";
+  return typeof value === "number"
+    ? String(Number(value.toPrecision(6)))
+    : value;
+}
+
+function csvCell(value: string | number | undefined): string {
+  const text = value === undefined ? "" : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csvLine(cells: Array<string | number | undefined>): string {
+  return cells.map(csvCell).join(",");
+}
+
+function renderTable(columns: string[], rows: Row[]): string {
+  const cells = rows.map((row) =>
+    columns.map((column) => formatCell(row[column])),
+  );
+  const widths = columns.map((column, i) =>
+    Math.max(column.length, ...cells.map((row) => (row[i] ?? "").length)),
+  );
+  const line = (values: string[]) =>
+    values
+      .map((value, i) => value.padEnd(widths[i] ?? 0))
+      .join("  ")
+      .trimEnd();
+  return [line(columns), ...cells.map(line)].join("\n");
+}
+
+/**
+ * A single result prints as key/value pairs in table format.
+ */
+function writeSingle(row: Row, format: OutputFormat, full: unknown): void {
+  if (format === "json") {
+    process.stdout.write(`${JSON.stringify(full, null, 2)}\n`);
+  } else if (format === "csv") {
+    const columns = Object.keys(row);
+    process.stdout.write(
+      `${csvLine(columns)}\n${csvLine(columns.map((c) => row[c]))}\n`,
+    );
+  } else {
+    const rows = Object.entries(row).map(([field, value]) => ({
+      field,
+      value: formatCell(value),
+    }));
+    process.stdout.write(`${renderTable(["field", "value"], rows)}\n`);
+  }
+}
+
+function runEstimate(values: ParsedValues): void {
+  const result = estimateImpact(buildInputs(values), {
+    strict: values.strict,
+  });
+  writeSingle(toResultRow(result), parseFormat(values.format, "table"), result);
+}
+
+function runRange(values: ParsedValues): void {
+  const result = estimateImpactRange(
+    buildInputs(values),
+    parseRanges(values.range),
+    { strict: values.strict },
+  );
+  writeSingle(toRangeRow(result), parseFormat(values.format, "table"), result);
+}
+
+function runRegions(values: ParsedValues): void {
+  const dataset = getGridIntensityDataset(values.dataset);
+  const aliases = new Map<string, string[]>();
+  for (const [alias, region] of Object.entries(listRegionAliases())) {
+    aliases.set(region, [...(aliases.get(region) ?? []), alias]);
+  }
+  const regions = Object.keys({
+    ...DEFAULT_GRID_CARBON_G_PER_KWH,
+    ...dataset.values,
+  }).sort();
+  const entries = regions.map((region) => ({
+    region,
+    gCO2PerKwh: dataset.values[region] ?? DEFAULT_GRID_CARBON_G_PER_KWH[region],
+    aliases: (aliases.get(region) ?? []).sort(),
+  }));
+
+  const format = parseFormat(values.format, "table");
+  if (format === "json") {
+    process.stdout.write(`${JSON.stringify(entries, null, 2)}\n`);
+    return;
+  }
+  const columns = ["region", "gCO2PerKwh", "aliases"];
+  const rows: Row[] = entries.map((entry) => ({
+    ...entry,
+    aliases: entry.aliases.join(", "),
+  }));
+  process.stdout.write(
+    format === "csv"
+      ? rows
+          .map((row) => csvLine(columns.map((c) => row[c])))
+          .reduce((out, line) => `${out}${line}\n`, `${csvLine(columns)}\n`)
+      : `${renderTable(columns, rows)}\n`,
+  );
+}
+
+/**
+ * Streams results as lines are read. JSON and CSV are written per line;
+ * the table is written once all lines are read so columns line up.
+ * Invalid lines are reported on stderr and make the exit code 1.
+ */
+async function runBatch(
+  values: ParsedValues,
+  positionals: string[],
+): Promise<number> {
+  const path = positionals[0];
+  if (!path) throw new UsageError("batch needs a JSONL file or - for stdin.");
+  const format = parseFormat(values.format, "json");
+  const defaults = buildInputs(values) as Record<string, unknown>;
+  const columns = ["line", "id", ...RESULT_COLUMNS];
+  const tableRows: Row[] = [];
+  let failures = 0;
+
+  if (format === "csv") process.stdout.write(`${csvLine(columns)}\n`);
+
+  const lines = createInterface({
+    input: path === "-" ? process.stdin : createReadStream(path),
+    crlfDelay: Infinity,
+  });
+  let lineNumber = 0;
+  for await (const line of lines) {
+    lineNumber += 1;
+    if (!line.trim()) continue;
+    try {
+      const parsed: unknown = JSON.parse(line);
+      if (!isPlainObject(parsed)) throw new Error("not a JSON object");
+      const input = mergeInputs(defaults, parsed) as ImpactInputs & {
+        id?: string | number;
+      };
+      const result = estimateImpact(input, { strict: values.strict });
+      const id = input.id === undefined ? undefined : String(input.id);
+      if (format === "json") {
+        process.stdout.write(
+          `${JSON.stringify({ line: lineNumber, id, ...result })}\n`,
+        );
+        continue;
+      }
+      const row: Row = { line: lineNumber, id, ...toResultRow(result) };
+      if (format === "csv") {
+        process.stdout.write(`${csvLine(columns.map((c) => row[c]))}\n`);
+      } else {
+        tableRows.push(row);
+      }
+    } catch (error) {
+      failures += 1;
+      const reason = error instanceof Error ? error.message : String(error);
+      process.stderr.write(`line ${lineNumber}: ${reason}\n`);
+    }
+  }
+
+  if (format === "table") {
+    process.stdout.write(`${renderTable(columns, tableRows)}\n`);
+  }
+  return failures > 0 ? 1 : 0;
+}
+
+function isParseArgsError(error: unknown): boolean {
+  const code = (error as { code?: unknown } | null)?.code;
+  return typeof code === "string" && code.startsWith("ERR_PARSE_ARGS");
+}
+
+async function main(argv: string[]): Promise<number> {
+  const [command, ...rest] = argv;
+  if (!command || command === "-h" || command === "--help") {
+    process.stdout.write(HELP);
+    return 0;
+  }
+
+  const { values, positionals } = parseArgs({
+    args: rest,
+    options: OPTIONS,
+    allowPositionals: true,
+  });
+  if (values.help) {
+    process.stdout.write(HELP);
+    return 0;
+  }
+
+  switch (command) {
+    case "estimate":
+      runEstimate(values);
+      return 0;
+    case "range":
+      runRange(values);
+      return 0;
+    case "regions":
+      runRegions(values);
+      return 0;
+    case "batch":
+      return runBatch(values, positionals);
+    default:
+      throw new UsageError(`Unknown command "${command}".`);
+  }
+}
+
+// Stop quietly when piped into a command that exits early, e.g. `head`.
+process.stdout.on("error", (error: NodeJS.ErrnoException) => {
+  if (error.code === "EPIPE") process.exit(0);
+  throw error;
+});
+
+main(process.argv.slice(2)).then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (error: unknown) => {
+    const message = error instanceof Error ? error.message : String(error);
+    process.stderr.write(`ai-footprint: ${message}\n`);
+    if (error instanceof UsageError || isParseArgsError(error)) {
+      process.stderr.write("Run ai-footprint --help for usage.\n");
+      process.exitCode = 2;
+    } else {
+      process.exitCode = 1;
+    }
+  },
+);
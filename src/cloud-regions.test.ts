@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import {
+  estimateImpact,
+  getCloudRegion,
+  listCloudRegions,
+  type ImpactInputs,
+} from "./index";
+
+const input: ImpactInputs = { gpuPowerW: 300, processingTimeSeconds: 10 };
+
+describe("getCloudRegion", () => {
+  it("resolves provider prefixes, aliases and bare ids", () => {
+    const region = getCloudRegion("gcp:europe-west4");
+    expect(region).toMatchObject({ provider: "gcp", zone: "nl", pue: 1.08 });
+    expect(getCloudRegion(" Google : EUROPE-WEST4 ")).toBe(region);
+    expect(getCloudRegion("europe-west4")).toBe(region);
+    expect(getCloudRegion("aws:europe-west4")).toBeUndefined();
+    expect(getCloudRegion("acme:europe-west4")).toBeUndefined();
+  });
+
+  it("falls back to the provider PUE without a campus value", () => {
+    expect(getCloudRegion("aws:us-east-1")).toMatchObject({
+      pue: 1.15,
+      zone: "us-srvc",
+    });
+    expect(getCloudRegion("gcp:us-west1")?.pueSource).toContain("campus");
+  });
+
+  it("lists regions per provider", () => {
+    const gcp = listCloudRegions("gcp");
+    expect(gcp.length).toBeGreaterThan(0);
+    expect(gcp.every((region) => region.provider === "gcp")).toBe(true);
+    expect(listCloudRegions().length).toBeGreaterThan(gcp.length);
+  });
+});
+
+describe("cloud regions in estimates", () => {
+  it("uses the zone grid intensity and the region PUE", () => {
+    const cloud = estimateImpact({ ...input, region: "gcp:europe-west4" });
+    const zone = estimateImpact({ ...input, region: "nl" });
+    expect(cloud.gridCarbonIntensityGPerKwh).toBe(
+      zone.gridCarbonIntensityGPerKwh,
+    );
+    expect(cloud.powerBreakdown.pue).toBe(1.08);
+    expect(cloud.energyKwh).toBeCloseTo(zone.energyKwh * 1.08, 12);
+  });
+
+  it("lets an explicit PUE override the region value", () => {
+    const result = estimateImpact({
+      ...input,
+      region: "gcp:europe-west4",
+      efficiency: { pue: 1.4 },
+    });
+    expect(result.powerBreakdown.pue).toBe(1.4);
+  });
+});
@@ -0,0 +1,115 @@
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  DEFAULT_GRID_INTENSITY_DATASET_ID,
+  ImpactValidationError,
+  estimateImpact,
+  getGridIntensityDataset,
+  listGridIntensityDatasets,
+  registerGridIntensityDataset,
+  setDefaultGridIntensityDataset,
+  setWarningSink,
+  type ImpactInputs,
+} from "./index";
+
+registerGridIntensityDataset({
+  metadata: {
+    id: "Datasets-Test-2019",
+    year: 2019,
+    unit: "gCO2/kWh",
+    source: "Dataset test fixture",
+  },
+  values: { global: 500, DE: 450 },
+});
+
+const input: ImpactInputs = {
+  gpuPowerW: 300,
+  processingTimeSeconds: 3600,
+  gridDataset: "datasets-test-2019",
+};
+
+afterEach(() => {
+  setDefaultGridIntensityDataset(DEFAULT_GRID_INTENSITY_DATASET_ID);
+  setWarningSink();
+});
+
+describe("grid intensity datasets", () => {
+  it("selects datasets by id or year and normalizes keys", () => {
+    expect(getGridIntensityDataset(2019).metadata.id).toBe(
+      "datasets-test-2019",
+    );
+    expect(getGridIntensityDataset("datasets-test-2019").values.de).toBe(450);
+    expect(listGridIntensityDatasets().map((dataset) => dataset.id)).toContain(
+      "datasets-test-2019",
+    );
+    expect(() => getGridIntensityDataset("nope")).toThrow(
+      ImpactValidationError,
+    );
+  });
+
+  it("rejects duplicates and datasets without a global value", () => {
+    expect(() =>
+      registerGridIntensityDataset({
+        metadata: {
+          id: "datasets-test-2019",
+          year: 2019,
+          unit: "gCO2/kWh",
+          source: "x",
+        },
+        values: { global: 1 },
+      }),
+    ).toThrow(ImpactValidationError);
+    expect(() =>
+      registerGridIntensityDataset({
+        metadata: {
+          id: "no-global",
+          year: 2018,
+          unit: "gCO2/kWh",
+          source: "x",
+        },
+        values: { de: 400 },
+      }),
+    ).toThrow("needs a global value");
+  });
+
+  it("stamps the dataset on region and global lookups", () => {
+    setWarningSink(() => undefined);
+    const de = estimateImpact({ ...input, region: "de" }, { explain: true });
+    expect(de.gridCarbonIntensityGPerKwh).toBe(450);
+    expect(de.gridDatasetId).toBe("datasets-test-2019");
+    expect(de.gridDatasetYear).toBe(2019);
+    expect(de.trace?.some((step) => step.kind === "grid_dataset")).toBe(true);
+
+    // Regions missing from the dataset use its own global value.
+    const fr = estimateImpact({ ...input, region: "fr" });
+    expect(fr.gridCarbonIntensityGPerKwh).toBe(500);
+    expect(fr.gridDatasetId).toBe("datasets-test-2019");
+  });
+
+  it("uses the active dataset by default", () => {
+    setDefaultGridIntensityDataset("datasets-test-2019");
+    const result = estimateImpact({
+      gpuPowerW: 300,
+      processingTimeSeconds: 1,
+      region: "de",
+    });
+    expect(result.gridCarbonIntensityGPerKwh).toBe(450);
+  });
+
+  it("leaves explicit and resolver values unstamped", () => {
+    for (const override of [
+      { gridCarbonIntensityGPerKwh: 100 },
+      { region: "de", timestamp: 0, gridIntensityResolver: () => 100 },
+    ]) {
+      const result = estimateImpact(
+        { ...input, ...override },
+        { explain: true },
+      );
+      expect(result.gridCarbonIntensityGPerKwh).toBe(100);
+      expect(result.gridDatasetId).toBeUndefined();
+      expect(result.trace?.map((step) => step.kind)).not.toContain(
+        "grid_dataset",
+      );
+      expect(result.notes.join("\n")).not.toContain("Grid dataset");
+    }
+  });
+});
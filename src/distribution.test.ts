@@ -0,0 +1,64 @@
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  ImpactValidationError,
+  estimateImpact,
+  estimateImpactDistribution,
+  setWarningSink,
+  usage,
+  type ImpactInputs,
+  type ValidationIssue,
+} from "./index";
+
+const input: ImpactInputs = {
+  gpuPowerW: 300,
+  region: "fr",
+  usage: usage.chat(1000, 200),
+  throughput: { tokensPerSecond: 100 },
+};
+const pue = { type: "uniform", min: 0.8, max: 1.4 } as const;
+
+afterEach(() => setWarningSink());
+
+describe("estimateImpactDistribution", () => {
+  it("is deterministic for a seed", () => {
+    const first = estimateImpactDistribution(input, { pue }, { seed: 7 });
+    const second = estimateImpactDistribution(input, { pue }, { seed: 7 });
+    expect(second).toEqual(first);
+    expect(first.co2Grams.p5).toBeLessThanOrEqual(first.co2Grams.median);
+    expect(first.co2Grams.median).toBeLessThanOrEqual(first.co2Grams.p95);
+  });
+
+  it("counts clamped draws in notes instead of warning per sample", () => {
+    const warnings: ValidationIssue[] = [];
+    setWarningSink((warning) => warnings.push(warning));
+    const result = estimateImpactDistribution(input, { pue }, { samples: 200 });
+    expect(warnings).toEqual([]);
+    expect(result.notes).toHaveLength(1);
+    expect(result.notes[0]).toMatch(
+      /^efficiency\.pue clamped in \d+ of 200 samples\.$/,
+    );
+  });
+
+  it("leaves warnings of nested estimates on the installed sink", () => {
+    const warnings: string[] = [];
+    setWarningSink((warning) => warnings.push(warning.path));
+    estimateImpactDistribution(
+      {
+        ...input,
+        gridIntensityResolver: () =>
+          estimateImpact({ ...input, efficiency: { pue: 5 } })
+            .gridCarbonIntensityGPerKwh,
+      },
+      { pue },
+      { samples: 3 },
+    );
+    // One nested clamp for the base estimate and one per sample.
+    expect(warnings).toEqual(Array(4).fill("efficiency.pue"));
+  });
+
+  it("rejects clamped draws in strict mode", () => {
+    expect(() =>
+      estimateImpactDistribution(input, { pue }, { strict: true }),
+    ).toThrow(ImpactValidationError);
+  });
+});
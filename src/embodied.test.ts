@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { estimateImpact, type ImpactInputs } from "./index";
+
+const input: ImpactInputs = {
+  gpuPowerW: 400,
+  processingTimeSeconds: 10,
+  region: "de",
+  embodied: { hardwareCo2Kg: 1500, lifetimeYears: 4, utilization: 0.5 },
+};
+
+describe("embodied carbon", () => {
+  it("amortizes hardware emissions over busy lifetime seconds", () => {
+    const busySeconds = 4 * 365.25 * 86400 * 0.5;
+    expect(estimateImpact(input).embodiedCo2Grams).toBeCloseTo(
+      (1500 * 1000 * 10) / busySeconds,
+      12,
+    );
+  });
+
+  it("splits embodied carbon and energy across the batch once each", () => {
+    const single = estimateImpact(input);
+    const batched = estimateImpact({ ...input, efficiency: { batchSize: 4 } });
+    expect(batched.energyKwh).toBeCloseTo(single.energyKwh / 4, 12);
+    expect(batched.embodiedCo2Grams).toBeCloseTo(
+      single.embodiedCo2Grams / 4,
+      12,
+    );
+    expect(batched.totalCo2Grams).toBeCloseTo(single.totalCo2Grams / 4, 12);
+  });
+
+  it("is zero without embodied options", () => {
+    const result = estimateImpact({ ...input, embodied: undefined });
+    expect(result.embodiedCo2Grams).toBe(0);
+    expect(result.totalCo2Grams).toBe(result.co2Grams);
+  });
+});
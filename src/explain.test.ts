@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import {
+  estimateImpact,
+  renderCalculationNotes,
+  usage,
+  type CalculationStep,
+  type ImpactInputs,
+} from "./index";
+
+const input: ImpactInputs = {
+  gpuPowerW: 300,
+  region: "de",
+  usage: usage.chat(1000, 200),
+  throughput: { tokensPerSecond: 100 },
+  efficiency: { batchSize: 2 },
+};
+
+describe("explain mode", () => {
+  it("attaches the trace only when asked", () => {
+    expect(estimateImpact(input)).not.toHaveProperty("trace");
+    const { trace } = estimateImpact(input, { explain: true });
+    expect(trace?.map((step) => step.kind)).toEqual([
+      "power",
+      "overhead",
+      "pue",
+      "processing_time",
+      "energy",
+      "batch",
+      "grid_intensity",
+      "grid_dataset",
+      "emissions",
+      "water",
+    ]);
+  });
+
+  it("records step inputs and outputs with units", () => {
+    const result = estimateImpact(input, { explain: true });
+    const energy = result.trace?.find((step) => step.kind === "energy");
+    expect(energy).toEqual({
+      kind: "energy",
+      inputs: {
+        effectivePowerW: { value: 300, unit: "W" },
+        processingTimeSeconds: { value: 12, unit: "s" },
+      },
+      outputs: { energyKwh: { value: 0.001, unit: "kWh" } },
+    });
+    const batch = result.trace?.find((step) => step.kind === "batch");
+    expect(batch?.outputs.energyKwh?.value).toBe(result.energyKwh);
+  });
+
+  it("renders the same notes as the result", () => {
+    const result = estimateImpact(input, { explain: true });
+    expect(renderCalculationNotes(result.trace ?? [])).toEqual(result.notes);
+  });
+});
+
+describe("renderCalculationNotes", () => {
+  it("formats known steps from their trace values", () => {
+    const trace: CalculationStep[] = [
+      {
+        kind: "pue",
+        inputs: {},
+        outputs: { pue: { value: 1.2, unit: "x" } },
+      },
+    ];
+    expect(renderCalculationNotes(trace)).toEqual(["PUE: 1.20"]);
+  });
+});
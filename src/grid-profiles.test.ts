@@ -0,0 +1,65 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import {
+  GridIntensityCsvError,
+  createProfileGridResolver,
+  parseGridIntensityCsv,
+  type HourlyGridIntensityProfile,
+} from "./index";
+
+describe("parseGridIntensityCsv", () => {
+  it("reads quoted cells with commas and escaped quotes", () => {
+    const profiles = parseGridIntensityCsv(
+      [
+        '"Region, Name",region,hour,intensity',
+        '"Bavaria, ""South""",de,0,400',
+        '"Bavaria, ""South""",de,1,380',
+      ].join("\n"),
+    );
+    expect(profiles).toHaveLength(1);
+    expect(profiles[0]).toMatchObject({ region: "de", kind: "hourly" });
+    expect(
+      profiles[0]?.kind === "hourly" && profiles[0].values.slice(0, 2),
+    ).toEqual([400, 380]);
+  });
+
+  it("rejects an unterminated quoted cell with its line", () => {
+    let error: unknown;
+    try {
+      parseGridIntensityCsv('region,month,intensity\n"de,1,300');
+    } catch (caught) {
+      error = caught;
+    }
+    expect(error).toBeInstanceOf(GridIntensityCsvError);
+    expect((error as GridIntensityCsvError).line).toBe(2);
+  });
+});
+
+describe("createProfileGridResolver", () => {
+  const { profiles } = JSON.parse(
+    readFileSync(
+      new URL("./__fixtures__/grid-profiles/hourly.json", import.meta.url),
+      "utf8",
+    ),
+  ) as { profiles: HourlyGridIntensityProfile[] };
+
+  it("looks up the local hour of a JSON profile", () => {
+    const resolver = createProfileGridResolver({
+      profiles: profiles.map((profile) => ({
+        ...profile,
+        interpolation: "step",
+      })),
+    });
+    const de = profiles.find((profile) => profile.region === "de")!;
+    // 11:00 UTC is 13:00 in Berlin during summer time.
+    expect(
+      resolver({ region: "de", timestamp: Date.UTC(2025, 5, 1, 11) }),
+    ).toBe(de.values[13]);
+  });
+
+  it("falls through without a profile or timestamp", () => {
+    const resolver = createProfileGridResolver(profiles);
+    expect(resolver({ region: "pl", timestamp: Date.UTC(2025, 5, 1) })).toBe(0);
+    expect(resolver({ region: "de" })).toBe(0);
+  });
+});
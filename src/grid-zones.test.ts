@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_GRID_CARBON_G_PER_KWH,
+  estimateImpact,
+  getCountry,
+  getGridZone,
+  listGridZones,
+  listRegionAliases,
+} from "./index";
+
+const estimate = (region: string) =>
+  estimateImpact({ gpuPowerW: 300, processingTimeSeconds: 10, region });
+
+describe("countries", () => {
+  it("looks up ISO 3166 countries by alpha-2, alpha-3 or name", () => {
+    const germany = getCountry("de");
+    expect(germany).toMatchObject({ alpha3: "DEU", name: "Germany" });
+    expect(getCountry(" DEU ")).toBe(germany);
+    expect(getCountry("germany")).toBe(germany);
+    expect(getCountry("atlantis")).toBeUndefined();
+  });
+
+  it("resolves country names to their own intensity", () => {
+    expect(estimate("Georgia").gridCarbonIntensityGPerKwh).toBe(
+      DEFAULT_GRID_CARBON_G_PER_KWH.ge,
+    );
+  });
+});
+
+describe("grid zones", () => {
+  it("resolves zone aliases to sub-national zones", () => {
+    expect(getGridZone("quebec")).toMatchObject({
+      id: "ca-qc",
+      country: "ca",
+    });
+    expect(getGridZone("egrid:srvc")?.id).toBe("us-srvc");
+    expect(listRegionAliases()).toMatchObject({ quebec: "ca-qc" });
+  });
+
+  it("lists zones by country", () => {
+    const zones = listGridZones("CA");
+    expect(zones.length).toBeGreaterThan(0);
+    expect(zones.every((zone) => zone.country === "ca")).toBe(true);
+  });
+
+  it("uses the zone intensity and falls back to the country for water", () => {
+    const zone = estimate("quebec");
+    const country = estimate("ca");
+    expect(zone.gridCarbonIntensityGPerKwh).toBe(
+      getGridZone("ca-qc")?.intensityGPerKwh,
+    );
+    expect(zone.gridCarbonIntensityGPerKwh).not.toBe(
+      country.gridCarbonIntensityGPerKwh,
+    );
+    expect(zone.waterIntensity).toEqual(country.waterIntensity);
+  });
+});
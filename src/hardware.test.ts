@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import {
+  ImpactValidationError,
+  estimateImpact,
+  getHardwareProfile,
+  listHardwareProfiles,
+  registerHardwareProfile,
+  type HardwareProfile,
+} from "./index";
+
+const custom: HardwareProfile = {
+  id: "Test-Accelerator",
+  name: "Test Accelerator",
+  vendor: "Test",
+  kind: "asic",
+  idlePowerW: 20,
+  tdpW: 150,
+  typicalInferencePowerW: 120,
+  memoryGb: 32,
+  source: "test fixture",
+};
+
+describe("hardware registry", () => {
+  it("looks up built-in profiles case-insensitively", () => {
+    expect(getHardwareProfile(" H100-SXM ")).toMatchObject({
+      id: "h100-sxm",
+      typicalInferencePowerW: 450,
+    });
+    expect(getHardwareProfile("unknown-gpu")).toBeUndefined();
+  });
+
+  it("registers custom profiles under a normalized id", () => {
+    registerHardwareProfile(custom);
+    expect(getHardwareProfile("test-accelerator")).toMatchObject({
+      id: "test-accelerator",
+      tdpW: 150,
+    });
+    expect(listHardwareProfiles().map((profile) => profile.id)).toContain(
+      "test-accelerator",
+    );
+    expect(() => registerHardwareProfile(custom)).toThrow(
+      ImpactValidationError,
+    );
+    expect(() =>
+      registerHardwareProfile({ ...custom, id: "h100-sxm" }),
+    ).toThrow(/already registered/);
+  });
+
+  it("rejects an idle draw above TDP", () => {
+    expect(() =>
+      registerHardwareProfile({ ...custom, id: "hot-idle", idlePowerW: 200 }),
+    ).toThrow(/idlePowerW must be <= hardware.tdpW/);
+    expect(getHardwareProfile("hot-idle")).toBeUndefined();
+  });
+});
+
+describe("hardware input", () => {
+  it("uses the typical inference draw as gpuPowerW", () => {
+    const byHardware = estimateImpact({
+      hardware: "h100-sxm",
+      processingTimeSeconds: 10,
+    });
+    const byPower = estimateImpact({
+      gpuPowerW: 450,
+      processingTimeSeconds: 10,
+    });
+    expect(byHardware.energyKwh).toBeCloseTo(byPower.energyKwh, 12);
+  });
+
+  it("rejects unknown hardware ids", () => {
+    expect(() =>
+      estimateImpact({ hardware: "unknown-gpu", processingTimeSeconds: 10 }),
+    ).toThrow(/Unknown hardware profile "unknown-gpu"/);
+  });
+});
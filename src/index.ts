@@ -7,6 +7,11 @@
  * - Extensible: optional advanced inputs (telemetry, PUE, power breakdown).
  */
 import gridCarbonIntensity2025 from "./data/grid-carbon-intensity.2025.json";
+import hardwareProfiles2025 from "./data/hardware-profiles.2025.json";
+import waterIntensity2025 from "./data/water-intensity.2025.json";
+import cloudRegions2025 from "./data/cloud-regions.2025.json";
+import countriesIso3166 from "./data/countries.iso3166.json";
+import gridZones2025 from "./data/grid-zones.2025.json";
 
 export type ModelCategory =
   | "chat.completions"
@@ -16,6 +21,11 @@ export type ModelCategory =
   | "audio.translation"
   | "audio.speech"
   | "image.generation"
+  | "image.edit"
+  | "image.understanding"
+  | "video.generation"
+  | "rerank"
+  | "moderation"
   | "ocr";
 
 export type RegionCode =
@@ -74,6 +84,63 @@ export interface GridCarbonIntensityMap {
 export const GRID_CARBON_INTENSITY_2025_METADATA =
   gridCarbonIntensity2025.metadata;
 
+export interface GridZone {
+  /**
+   * Zone identifier (e.g. "us-srvc", "ca-qc", "au-nsw", "in-south").
+   */
+  id: string;
+  name: string;
+
+  /**
+   * ISO 3166-1 alpha-2 code of the country the zone belongs to.
+   */
+  country: string;
+  intensityGPerKwh: number;
+  source: string;
+  sourceUrl?: string;
+}
+
+export const GRID_ZONES_2025_METADATA = gridZones2025.metadata;
+
+/**
+ * Built-in sub-national grid zones: US eGRID subregions, Canadian provinces,
+ * Australian states and Indian regional grids.
+ */
+export const DEFAULT_GRID_ZONES: Readonly<Record<string, GridZone>> =
+  Object.fromEntries(
+    gridZones2025.groups.flatMap((group) =>
+      group.zones.map((zone) => [
+        zone.id,
+        {
+          id: zone.id,
+          name: zone.name,
+          country: group.country,
+          intensityGPerKwh: zone.value,
+          source: group.source,
+          sourceUrl: group.sourceUrl,
+        },
+      ]),
+    ),
+  );
+
+export interface Country {
+  alpha2: string;
+  alpha3: string;
+  name: string;
+  commonName?: string;
+}
+
+/**
+ * ISO 3166-1 countries keyed by lowercase alpha-2 code.
+ */
+export const ISO_3166_COUNTRIES: Readonly<Record<string, Country>> =
+  Object.fromEntries(
+    countriesIso3166.countries.map((country) => [
+      country.alpha2.toLowerCase(),
+      country,
+    ]),
+  );
+
 const BASE_GRID_CARBON_G_PER_KWH: GridCarbonIntensityMap = {
   global: 475,
   us: 400,
@@ -88,8 +155,28 @@ const BASE_GRID_CARBON_G_PER_KWH: GridCarbonIntensityMap = {
 export const DEFAULT_GRID_CARBON_G_PER_KWH: GridCarbonIntensityMap = {
   ...BASE_GRID_CARBON_G_PER_KWH,
   ...gridCarbonIntensity2025.values,
+  ...Object.fromEntries(
+    Object.values(DEFAULT_GRID_ZONES).map((zone) => [
+      zone.id,
+      zone.intensityGPerKwh,
+    ]),
+  ),
 };
 
+export const WATER_INTENSITY_2025_METADATA = waterIntensity2025.metadata;
+
+/**
+ * On-site data center water usage effectiveness (L per kWh of IT energy).
+ */
+export const DEFAULT_ONSITE_WUE_L_PER_KWH: GridCarbonIntensityMap =
+  waterIntensity2025.onsiteWue;
+
+/**
+ * Off-site water consumed generating electricity (L per kWh).
+ */
+export const DEFAULT_OFFSITE_WATER_L_PER_KWH: GridCarbonIntensityMap =
+  waterIntensity2025.offsite;
+
 const REGION_ALIASES: Record<string, RegionCode> = {
   // Common aliases
   gb: "uk",
@@ -112,55 +199,462 @@ const REGION_ALIASES: Record<string, RegionCode> = {
   montenegro: "me",
   serbia: "rs",
   "bosnia and herzegovina": "ba",
-
-  // EEA not in dataset: map to EU average
-  is: "eu",
-
-  // Additional countries mapped to global baseline
-  cn: "global",
-  kr: "global",
-  mx: "global",
-  za: "global",
-  ae: "global",
-  sa: "global",
-  nz: "global",
-  il: "global",
-  ar: "global",
-  cl: "global",
-  co: "global",
-  pe: "global",
-  id: "global",
-  th: "global",
-  vn: "global",
-  ph: "global",
-  my: "global",
-  tw: "global",
-  hk: "global",
-  pk: "global",
-  bd: "global",
-  ng: "global",
-  eg: "global",
-  ke: "global",
-  ma: "global",
-  tn: "global",
-  dz: "global",
 };
 
-function normalizeRegion(region?: RegionInput): RegionCode | undefined {
+const COUNTRY_KEYS = new Map<string, Country>();
+const GRID_ZONE_ALIASES: Record<string, string> = {};
+
+// Countries first, so a name such as "georgia" resolves to the country
+// rather than the US state.
+for (const [alpha2, country] of Object.entries(ISO_3166_COUNTRIES)) {
+  const zone = DEFAULT_GRID_CARBON_G_PER_KWH[alpha2]
+    ? alpha2
+    : (REGION_ALIASES[alpha2] ?? "global");
+  for (const key of [
+    alpha2,
+    country.alpha3,
+    country.name,
+    country.commonName,
+  ]) {
+    if (!key) continue;
+    const normalized = key.toLowerCase();
+    if (!COUNTRY_KEYS.has(normalized)) COUNTRY_KEYS.set(normalized, country);
+    GRID_ZONE_ALIASES[normalized] ??= zone;
+  }
+}
+for (const group of gridZones2025.groups) {
+  for (const zone of group.zones) {
+    for (const alias of zone.aliases) GRID_ZONE_ALIASES[alias] ??= zone.id;
+  }
+}
+
+function normalizeRegion(
+  region?: RegionInput,
+  values: GridCarbonIntensityMap = DEFAULT_GRID_CARBON_G_PER_KWH,
+): RegionCode | undefined {
   if (!region) return undefined;
   const key = region.toString().toLowerCase().trim();
-  if (DEFAULT_GRID_CARBON_G_PER_KWH[key as RegionCode]) {
+  if (values[key as RegionCode] || DEFAULT_GRID_CARBON_G_PER_KWH[key]) {
     return key as RegionCode;
   }
-  return REGION_ALIASES[key];
+  const alias = REGION_ALIASES[key] ?? GRID_ZONE_ALIASES[key];
+  if (alias) return alias as RegionCode;
+  const cloudRegion = getCloudRegion(key);
+  return cloudRegion ? normalizeRegion(cloudRegion.zone, values) : undefined;
+}
+
+/**
+ * Every region alias (country names and codes, states, eGRID ids, ...)
+ * mapped to the region key it resolves to. Cloud regions are listed by
+ * `listCloudRegions()`.
+ */
+export function listRegionAliases(): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries({ ...GRID_ZONE_ALIASES, ...REGION_ALIASES }).filter(
+      ([alias]) => DEFAULT_GRID_CARBON_G_PER_KWH[alias] === undefined,
+    ),
+  );
+}
+
+/**
+ * Looks up a per-region value, falling back from a sub-national zone to its
+ * country when the map has no zone-level entry.
+ */
+function lookupRegionValue(
+  values: GridCarbonIntensityMap,
+  region: string,
+): number | undefined {
+  const zone = DEFAULT_GRID_ZONES[region];
+  return values[region] ?? (zone ? values[zone.country] : undefined);
+}
+
+/**
+ * Resolves a zone id, alias ("virginia", "quebec", "egrid:srvc") or cloud
+ * region to its sub-national grid zone.
+ */
+export function getGridZone(region: RegionInput): GridZone | undefined {
+  const key = normalizeRegion(region);
+  return key ? DEFAULT_GRID_ZONES[key] : undefined;
+}
+
+export function listGridZones(country?: string): GridZone[] {
+  const zones = Object.values(DEFAULT_GRID_ZONES);
+  if (!country) return zones;
+  const key = country.toLowerCase();
+  return zones.filter((zone) => zone.country === key);
+}
+
+/**
+ * Looks up an ISO 3166-1 country by alpha-2, alpha-3 or name.
+ */
+export function getCountry(region: RegionInput): Country | undefined {
+  return COUNTRY_KEYS.get(region.toString().toLowerCase().trim());
+}
+
+export type CloudProvider = "aws" | "gcp" | "azure" | "oracle";
+
+export interface CloudRegion {
+  provider: CloudProvider;
+  providerName: string;
+
+  /**
+   * Provider region identifier (e.g. "eu-north-1", "europe-west4", "swedencentral").
+   */
+  id: string;
+  location: string;
+
+  /**
+   * Grid zone used for carbon and water lookup.
+   */
+  zone: RegionInput;
+
+  /**
+   * Provider-published PUE, or a campus value where one is published.
+   */
+  pue: number;
+  pueSource: string;
+}
+
+export const CLOUD_REGIONS_2025_METADATA = cloudRegions2025.metadata;
+
+/**
+ * Built-in cloud regions keyed by "provider:region".
+ */
+export const DEFAULT_CLOUD_REGIONS: Readonly<Record<string, CloudRegion>> =
+  Object.fromEntries(
+    Object.entries(cloudRegions2025.providers).flatMap(([provider, entry]) =>
+      Object.entries(
+        entry.regions as Record<
+          string,
+          { location: string; zone: string; pue?: number }
+        >,
+      ).map(([id, region]) => [
+        `${provider}:${id}`,
+        {
+          provider: provider as CloudProvider,
+          providerName: entry.name,
+          id,
+          location: region.location,
+          zone: region.zone,
+          pue: region.pue ?? entry.pue,
+          pueSource:
+            region.pue === undefined
+              ? entry.pueSource
+              : `${entry.pueSource}, ${region.location} campus`,
+        },
+      ]),
+    ),
+  );
+
+const CLOUD_PROVIDER_ALIASES: Record<string, CloudProvider> = {
+  aws: "aws",
+  amazon: "aws",
+  gcp: "gcp",
+  google: "gcp",
+  azure: "azure",
+  microsoft: "azure",
+  oracle: "oracle",
+  oci: "oracle",
+};
+
+// Bare region ids resolve only when exactly one provider uses them.
+const UNPREFIXED_CLOUD_REGIONS = new Map<string, CloudRegion | null>();
+for (const region of Object.values(DEFAULT_CLOUD_REGIONS)) {
+  UNPREFIXED_CLOUD_REGIONS.set(
+    region.id,
+    UNPREFIXED_CLOUD_REGIONS.has(region.id) ? null : region,
+  );
+}
+
+/**
+ * Looks up a cloud region by "provider:region" (e.g. "aws:eu-north-1",
+ * "gcp:europe-west4") or by a bare region id when it is unambiguous.
+ */
+export function getCloudRegion(region: RegionInput): CloudRegion | undefined {
+  const key = region.toString().toLowerCase().trim();
+  const separator = key.indexOf(":");
+  if (separator === -1) return UNPREFIXED_CLOUD_REGIONS.get(key) ?? undefined;
+
+  const provider = CLOUD_PROVIDER_ALIASES[key.slice(0, separator).trim()];
+  if (!provider) return undefined;
+  return DEFAULT_CLOUD_REGIONS[
+    `${provider}:${key.slice(separator + 1).trim()}`
+  ];
+}
+
+export function listCloudRegions(provider?: CloudProvider): CloudRegion[] {
+  const regions = Object.values(DEFAULT_CLOUD_REGIONS);
+  return provider
+    ? regions.filter((region) => region.provider === provider)
+    : regions;
+}
+
+export interface GridIntensityDatasetMetadata {
+  /**
+   * Registry identifier (e.g. "owid-2025", "ember-2024", "acme-corp-2024").
+   */
+  id: string;
+  year: number;
+  unit: string;
+  source: string;
+  sourceUrl?: string;
+}
+
+export interface GridIntensityDataset {
+  metadata: GridIntensityDatasetMetadata;
+  values: GridCarbonIntensityMap;
+}
+
+export const DEFAULT_GRID_INTENSITY_DATASET_ID = "owid-2025";
+
+const gridIntensityDatasets = new Map<string, GridIntensityDataset>([
+  [
+    DEFAULT_GRID_INTENSITY_DATASET_ID,
+    {
+      metadata: {
+        id: DEFAULT_GRID_INTENSITY_DATASET_ID,
+        ...GRID_CARBON_INTENSITY_2025_METADATA,
+      },
+      values: DEFAULT_GRID_CARBON_G_PER_KWH,
+    },
+  ],
+]);
+
+let activeGridIntensityDatasetId = DEFAULT_GRID_INTENSITY_DATASET_ID;
+
+/**
+ * Registers a grid intensity dataset (another year, Ember, IEA, or
+ * corporate factors) so it can be selected with `gridDataset`.
+ */
+export function registerGridIntensityDataset(
+  dataset: GridIntensityDataset,
+): void {
+  const id = dataset.metadata.id.toLowerCase().trim();
+  if (!id) {
+    throw invalid(
+      "dataset.metadata.id",
+      "required",
+      "dataset.metadata.id must be a non-empty string.",
+    );
+  }
+  if (gridIntensityDatasets.has(id)) {
+    throw invalid(
+      "dataset.metadata.id",
+      "duplicate",
+      `Grid intensity dataset "${id}" is already registered.`,
+    );
+  }
+  requireInteger("dataset.metadata.year", dataset.metadata.year);
+
+  const values: GridCarbonIntensityMap = {};
+  for (const [region, value] of Object.entries(dataset.values)) {
+    requirePositive(`dataset.values.${region}`, value);
+    values[region.toLowerCase().trim()] = value;
+  }
+  // Unknown regions fall back to the dataset's own global value, so results
+  // never mix in another year's or source's factors.
+  if (values.global === undefined) {
+    throw invalid(
+      "dataset.values.global",
+      "required",
+      `Grid intensity dataset "${id}" needs a global value.`,
+    );
+  }
+
+  gridIntensityDatasets.set(id, {
+    metadata: { ...dataset.metadata, id },
+    values,
+  });
+}
+
+/**
+ * Looks up a dataset by id or year. Defaults to the active dataset.
+ * Selecting by year requires exactly one registered dataset for that year.
+ */
+export function getGridIntensityDataset(
+  selector?: string | number,
+): GridIntensityDataset {
+  if (selector === undefined) {
+    return gridIntensityDatasets.get(
+      activeGridIntensityDatasetId,
+    ) as GridIntensityDataset;
+  }
+
+  if (typeof selector === "number") {
+    const matches = [...gridIntensityDatasets.values()].filter(
+      (dataset) => dataset.metadata.year === selector,
+    );
+    if (matches.length === 1) return matches[0] as GridIntensityDataset;
+    if (matches.length === 0) {
+      throw invalid(
+        "gridDataset",
+        "unknown_dataset",
+        `No grid intensity dataset registered for ${selector}.`,
+      );
+    }
+    throw invalid(
+      "gridDataset",
+      "invalid_value",
+      `Multiple grid intensity datasets for ${selector} (${matches
+        .map((dataset) => dataset.metadata.id)
+        .join(", ")}); select one by id.`,
+    );
+  }
+
+  const dataset = gridIntensityDatasets.get(selector.toLowerCase().trim());
+  if (!dataset) {
+    throw invalid(
+      "gridDataset",
+      "unknown_dataset",
+      `Unknown grid intensity dataset "${selector}".`,
+    );
+  }
+  return dataset;
+}
+
+export function listGridIntensityDatasets(): GridIntensityDatasetMetadata[] {
+  return [...gridIntensityDatasets.values()].map((dataset) => ({
+    ...dataset.metadata,
+  }));
+}
+
+/**
+ * Sets the dataset used when a call does not pass `gridDataset`.
+ */
+export function setDefaultGridIntensityDataset(
+  selector: string | number,
+): void {
+  activeGridIntensityDatasetId = getGridIntensityDataset(selector).metadata.id;
+}
+
+export type HardwareKind = "gpu" | "tpu" | "cpu";
+
+export interface HardwareProfile {
+  /**
+   * Registry identifier used in the `hardware` input (e.g. "h100-sxm").
+   */
+  id: string;
+  name: string;
+  vendor: string;
+  kind: HardwareKind;
+
+  /**
+   * Power draw of the device when idle (W).
+   */
+  idlePowerW: number;
+
+  /**
+   * Thermal design power / board power limit (W).
+   */
+  tdpW: number;
+
+  /**
+   * Average power draw under sustained inference load (W).
+   * Used as `gpuPowerW` when no explicit value is provided.
+   */
+  typicalInferencePowerW: number;
+
+  /**
+   * Device memory (GB). Host RAM for CPU-only profiles.
+   */
+  memoryGb: number;
+
+  source: string;
+  sourceUrl?: string;
+}
+
+export const HARDWARE_PROFILES_2025_METADATA = hardwareProfiles2025.metadata;
+
+export const DEFAULT_HARDWARE_PROFILES: Readonly<
+  Record<string, HardwareProfile>
+> = Object.fromEntries(
+  Object.entries(hardwareProfiles2025.profiles).map(([id, profile]) => [
+    id,
+    { id, ...profile, kind: profile.kind as HardwareKind },
+  ]),
+);
+
+const customHardwareProfiles = new Map<string, HardwareProfile>();
+
+function normalizeHardwareId(id: string): string {
+  return id.toLowerCase().trim();
+}
+
+/**
+ * Registers a custom hardware profile so it can be selected via `hardware`.
+ * Ids are case-insensitive and cannot shadow an already registered profile.
+ */
+export function registerHardwareProfile(profile: HardwareProfile): void {
+  const id = normalizeHardwareId(profile.id);
+  if (!id) {
+    throw invalid(
+      "hardware.id",
+      "required",
+      "hardware.id must be a non-empty string.",
+    );
+  }
+  if (DEFAULT_HARDWARE_PROFILES[id] || customHardwareProfiles.has(id)) {
+    throw invalid(
+      "hardware.id",
+      "duplicate",
+      `Hardware profile "${id}" is already registered.`,
+    );
+  }
+  requirePositive("hardware.idlePowerW", profile.idlePowerW);
+  requirePositive("hardware.tdpW", profile.tdpW);
+  requirePositive(
+    "hardware.typicalInferencePowerW",
+    profile.typicalInferencePowerW,
+  );
+  requirePositive("hardware.memoryGb", profile.memoryGb);
+  if (profile.idlePowerW > profile.tdpW) {
+    throw invalid(
+      "hardware.idlePowerW",
+      "invalid_range",
+      "hardware.idlePowerW must be <= hardware.tdpW.",
+    );
+  }
+  customHardwareProfiles.set(id, { ...profile, id });
+}
+
+export function getHardwareProfile(id: string): HardwareProfile | undefined {
+  const key = normalizeHardwareId(id);
+  return DEFAULT_HARDWARE_PROFILES[key] ?? customHardwareProfiles.get(key);
+}
+
+export function listHardwareProfiles(): HardwareProfile[] {
+  return [
+    ...Object.values(DEFAULT_HARDWARE_PROFILES),
+    ...customHardwareProfiles.values(),
+  ];
+}
+
+function resolveHardwareProfile(id?: string): HardwareProfile | undefined {
+  if (id === undefined) return undefined;
+  const profile = getHardwareProfile(id);
+  if (!profile) {
+    throw invalid(
+      "hardware",
+      "unknown_hardware",
+      `Unknown hardware profile "${id}".`,
+    );
+  }
+  return profile;
 }
 
 export interface BaseImpactInputs {
   /**
    * GPU/accelerator average power draw for inference (W).
    * This should be the average during the request, not peak TDP.
+   * Optional when `hardware` is set: the profile's typical inference draw is used.
+   */
+  gpuPowerW?: number;
+
+  /**
+   * Hardware profile id from the built-in registry or `registerHardwareProfile`
+   * (e.g. "h100-sxm", "l4", "cpu-2s").
    */
-  gpuPowerW: number;
+  hardware?: string;
 
   /**
    * Optional power draw from CPU (W) for the request.
@@ -190,6 +684,12 @@ export interface BaseImpactInputs {
    */
   gridCarbonIntensityGPerKwh?: number;
 
+  /**
+   * Grid intensity dataset id or year used for region lookup
+   * (e.g. "owid-2025" or 2024). Defaults to the active dataset.
+   */
+  gridDataset?: string | number;
+
   /**
    * Optional timestamp (Date or epoch ms) used by gridIntensityResolver.
    */
@@ -261,8 +761,48 @@ export interface ChatCompletionUsage {
   inputTokens: number;
   outputTokens: number;
   processingTimeSeconds?: number;
+
+  /**
+   * Part of `inputTokens` served from the prompt cache. Weighted by
+   * `throughput.cachedInputTokenWeight`.
+   */
+  cachedInputTokens?: number;
+
+  /**
+   * Part of `outputTokens` spent on hidden reasoning. Weighted by
+   * `throughput.reasoningTokenWeight`.
+   */
+  reasoningTokens?: number;
+
+  /**
+   * Images passed through the vision encoder. Their tokens stay in
+   * `inputTokens`; this adds the encoder work.
+   */
+  imageInputs?: number;
+
+  /**
+   * Seconds of audio passed through the audio encoder.
+   */
+  audioInputSeconds?: number;
+
+  /**
+   * Tool calls made while answering, each adding a fixed overhead.
+   */
+  toolCalls?: number;
 }
 
+/**
+ * Optional `ChatCompletionUsage` details accepted by `usage.chat`.
+ */
+export type ChatUsageDetails = Pick<
+  ChatCompletionUsage,
+  | "cachedInputTokens"
+  | "reasoningTokens"
+  | "imageInputs"
+  | "audioInputSeconds"
+  | "toolCalls"
+>;
+
 export interface TextCompletionUsage {
   category: "text.completions";
   inputTokens: number;
@@ -309,6 +849,64 @@ export interface ImageGenerationUsage {
   processingTimeSeconds?: number;
 }
 
+export interface ImageEditUsage {
+  category: "image.edit";
+  /**
+   * Output size; edits and inpainting are costed per output pixel.
+   */
+  width: number;
+  height: number;
+  images: number;
+  processingTimeSeconds?: number;
+}
+
+/**
+ * Vision-only models (classification, detection, captioning encoders).
+ * Chat with image attachments belongs in `ChatCompletionUsage.imageInputs`.
+ */
+export interface ImageUnderstandingUsage {
+  category: "image.understanding";
+  width: number;
+  height: number;
+  images: number;
+  processingTimeSeconds?: number;
+}
+
+export interface VideoGenerationUsage {
+  category: "video.generation";
+  width: number;
+  height: number;
+  fps: number;
+  durationSeconds: number;
+  videos: number;
+  processingTimeSeconds?: number;
+}
+
+export interface RerankUsage {
+  category: "rerank";
+  /**
+   * Documents scored against each query.
+   */
+  documents: number;
+  queries: number;
+  /**
+   * Total tokens scored. When set, time is derived from token throughput
+   * instead of `rerankDocumentsPerSecond`, and per-token energy applies.
+   */
+  inputTokens?: number;
+  processingTimeSeconds?: number;
+}
+
+export interface ModerationUsage {
+  category: "moderation";
+  inputTokens: number;
+  /**
+   * Images classified alongside the text.
+   */
+  images?: number;
+  processingTimeSeconds?: number;
+}
+
 export type Usage =
   | ChatCompletionUsage
   | TextCompletionUsage
@@ -317,14 +915,80 @@ export type Usage =
   | AudioTranscriptionUsage
   | AudioTranslationUsage
   | AudioSpeechUsage
-  | ImageGenerationUsage;
+  | ImageGenerationUsage
+  | ImageEditUsage
+  | ImageUnderstandingUsage
+  | VideoGenerationUsage
+  | RerankUsage
+  | ModerationUsage;
 
 export interface ThroughputConfig {
   /**
    * Tokens per second used to compute time for token-based models.
+   * Fallback for `inputTokensPerSecond` and `outputTokensPerSecond`.
    */
   tokensPerSecond?: number;
 
+  /**
+   * Prompt (prefill) tokens processed per second. Prefill is usually an
+   * order of magnitude faster than decode.
+   */
+  inputTokensPerSecond?: number;
+
+  /**
+   * Generated (decode) tokens per second.
+   */
+  outputTokensPerSecond?: number;
+
+  /**
+   * Measured time to first token (s). Replaces the prefill time derived
+   * from `inputTokensPerSecond` for chat, text and OCR usage.
+   */
+  timeToFirstTokenSeconds?: number;
+
+  /**
+   * Device energy per prompt token (J). With the output coefficient, energy
+   * is computed from tokens instead of power × time; overhead and PUE
+   * still apply.
+   */
+  energyJoulesPerInputToken?: number;
+
+  /**
+   * Device energy per generated token (J).
+   */
+  energyJoulesPerOutputToken?: number;
+
+  /**
+   * Cost of a cached input token relative to a regular one, for both time
+   * and per-token energy. Defaults to 0.1.
+   */
+  cachedInputTokenWeight?: number;
+
+  /**
+   * Cost of a reasoning token relative to a regular output token.
+   * Defaults to 1.
+   */
+  reasoningTokenWeight?: number;
+
+  /**
+   * Images encoded per second, for `imageInputs`.
+   */
+  imageInputsPerSecond?: number;
+
+  /**
+   * Audio seconds encoded per second, for `audioInputSeconds`.
+   */
+  audioInputSecondsPerSecond?: number;
+
+  /**
+   * Added time per tool call (s), for `toolCalls`.
+   */
+  toolCallOverheadSeconds?: number;
+
+  energyJoulesPerImageInput?: number;
+  energyJoulesPerAudioInputSecond?: number;
+  energyJoulesPerToolCall?: number;
+
   /**
    * Audio seconds processed per second (real-time factor).
    * Example: 0.5 means 2x real-time.
@@ -335,6 +999,172 @@ export interface ThroughputConfig {
    * Pixels processed per second for image generation.
    */
   pixelsPerSecond?: number;
+
+  /**
+   * Output pixels per second for image edits. Defaults to `pixelsPerSecond`.
+   */
+  editPixelsPerSecond?: number;
+
+  /**
+   * Input pixels per second for image understanding.
+   */
+  visionPixelsPerSecond?: number;
+
+  /**
+   * Generated pixels per second for video, i.e. width × height × frames
+   * produced per second of processing.
+   */
+  videoPixelsPerSecond?: number;
+
+  /**
+   * Query-document pairs scored per second for reranking.
+   */
+  rerankDocumentsPerSecond?: number;
+}
+
+export interface UtilizationCurvePoint {
+  /**
+   * Device utilization fraction (0-1).
+   */
+  utilization: number;
+
+  /**
+   * Fraction of the idle-to-TDP span drawn at this utilization (0-1).
+   */
+  powerFraction: number;
+}
+
+export interface PowerModelOptions {
+  /**
+   * Number of accelerators serving the request (e.g. tensor-parallel degree).
+   * Per-device power is multiplied by this value. Default: 1.
+   */
+  deviceCount?: number;
+
+  /**
+   * Average per-device utilization during the request (0-1).
+   * When set and `gpuPowerW` is not, per-device power is interpolated
+   * between idle power and TDP.
+   */
+  utilization?: number;
+
+  /**
+   * Optional utilization-to-power curve. Points are interpolated linearly;
+   * the default is a straight line from idle (0) to TDP (1).
+   */
+  utilizationCurve?: UtilizationCurvePoint[];
+
+  /**
+   * Per-device idle power (W). Defaults to the hardware profile value.
+   */
+  idlePowerW?: number;
+
+  /**
+   * Per-device TDP (W). Defaults to the hardware profile value.
+   */
+  tdpW?: number;
+
+  /**
+   * Idle power of the whole node (W): host, fans, unused devices.
+   */
+  nodeIdlePowerW?: number;
+
+  /**
+   * Share of `nodeIdlePowerW` attributed to this request (0-1). Default: 1.
+   */
+  nodeIdleShare?: number;
+}
+
+export interface EmbodiedCarbonOptions {
+  /**
+   * Embodied (manufacturing, transport, end-of-life) emissions of the
+   * hardware serving the request, in kgCO2e. Use the whole node or device set.
+   */
+  hardwareCo2Kg: number;
+
+  /**
+   * Expected service lifetime of the hardware in years.
+   */
+  lifetimeYears: number;
+
+  /**
+   * Fraction of the lifetime the hardware is busy serving requests (0-1).
+   * Idle time is carried by the busy time, so lower values raise the
+   * per-request share. Default: 1.
+   */
+  utilization?: number;
+}
+
+export type ContractualInstrumentType = "rec" | "go" | "ppa" | "other";
+
+/**
+ * An energy attribute certificate or contract covering part of the energy.
+ */
+export interface ContractualInstrument {
+  type: ContractualInstrumentType;
+  /**
+   * Fraction of the energy covered (0-1).
+   */
+  coverage: number;
+  /**
+   * Emission factor of the covered energy (gCO2/kWh). Default: 0.
+   */
+  emissionFactorGPerKwh?: number;
+}
+
+/**
+ * Market-based (GHG Protocol Scope 2) accounting inputs. Covered energy
+ * uses the instrument factors; the rest uses the supplier-specific factor,
+ * else the residual mix, else the location-based intensity.
+ */
+export interface MarketBasedOptions {
+  /**
+   * RECs, GOs and PPAs. Coverage must not exceed 1 in total.
+   */
+  instruments?: ContractualInstrument[];
+  /**
+   * Supplier-specific emission factor (gCO2/kWh) for uncovered energy.
+   */
+  supplierFactorGPerKwh?: number;
+  /**
+   * Residual mix factor (gCO2/kWh) for uncovered energy without a
+   * supplier factor.
+   */
+  residualMixGPerKwh?: number;
+}
+
+export interface WaterIntensity {
+  /**
+   * On-site WUE: litres evaporated per kWh of IT energy.
+   */
+  onsiteWueLitersPerKwh: number;
+
+  /**
+   * Off-site: litres consumed generating one kWh of electricity.
+   */
+  offsiteLitersPerKwh: number;
+}
+
+export interface WaterOptions {
+  /**
+   * Explicit on-site WUE (L/kWh). Overrides resolver and region lookup.
+   */
+  onsiteWueLitersPerKwh?: number;
+
+  /**
+   * Explicit off-site electricity water intensity (L/kWh).
+   * Overrides resolver and region lookup.
+   */
+  offsiteLitersPerKwh?: number;
+
+  /**
+   * Optional resolver hook for dynamic water intensities.
+   * Missing or non-positive fields fall back to the region defaults.
+   */
+  waterIntensityResolver?: (input: {
+    region?: RegionInput;
+    timestamp?: Date | number;
+  }) => Partial<WaterIntensity> | undefined;
 }
 
 export interface ImpactInputs extends BaseImpactInputs {
@@ -342,15 +1172,22 @@ export interface ImpactInputs extends BaseImpactInputs {
   throughput?: ThroughputConfig;
   energy?: EnergyInputs;
   efficiency?: EfficiencyOptions;
+  powerModel?: PowerModelOptions;
+  embodied?: EmbodiedCarbonOptions;
+  water?: WaterOptions;
+  marketBased?: MarketBasedOptions;
 }
 
 export interface MinimalImpactInputs {
-  gpuPowerW: number;
+  gpuPowerW?: number;
+  hardware?: string;
   processingTimeSeconds: number;
   region?: RegionInput;
   gridCarbonIntensityGPerKwh?: number;
+  gridDataset?: string | number;
   efficiency?: EfficiencyOptions;
   energy?: EnergyInputs;
+  marketBased?: MarketBasedOptions;
   timestamp?: Date | number;
   gridIntensityResolver?: (input: {
     region?: RegionInput;
@@ -358,14 +1195,157 @@ export interface MinimalImpactInputs {
   }) => number;
 }
 
+export interface PowerBreakdown {
+  deviceCount: number;
+  /**
+   * Power of a single device (W) after utilization modelling.
+   */
+  perDevicePowerW: number;
+  /**
+   * Utilization used to derive per-device power, if any.
+   */
+  utilization?: number;
+  devicePowerW: number;
+  cpuPowerW: number;
+  networkPowerW: number;
+  /**
+   * Node idle power attributed to the request (W).
+   */
+  nodeIdlePowerW: number;
+  /**
+   * Sum of all components before overhead and PUE (W).
+   */
+  basePowerW: number;
+  overheadFactor: number;
+  pue: number;
+}
+
+export type CalculationStepKind =
+  | "hardware"
+  | "power"
+  | "overhead"
+  | "pue"
+  | "cloud_region"
+  | "energy_override"
+  | "processing_time"
+  | "efficiency"
+  | "energy"
+  | "token_energy"
+  | "batch"
+  | "grid_intensity"
+  | "grid_dataset"
+  | "grid_zone"
+  | "grid_source"
+  | "emissions"
+  | "market_based"
+  | "water"
+  | "embodied"
+  | "precision"
+  | "quantization";
+
+export interface TraceValue {
+  value: number | string | boolean;
+  unit?: string;
+}
+
+/**
+ * One step of the calculation with the values it consumed and produced.
+ */
+export interface CalculationStep {
+  kind: CalculationStepKind;
+  inputs: Record<string, TraceValue>;
+  outputs: Record<string, TraceValue>;
+}
+
 export interface ImpactResult {
   category?: ModelCategory;
   energyKwh: number;
+  /**
+   * Operational emissions (g), location-based. Same as `co2GramsLocationBased`.
+   */
   co2Grams: number;
+  co2GramsLocationBased: number;
+  /**
+   * Operational emissions (g) after contractual instruments and supplier or
+   * residual mix factors. Equals the location-based value without
+   * `marketBased` inputs.
+   */
+  co2GramsMarketBased: number;
   gridCarbonIntensityGPerKwh: number;
+
+  /**
+   * Dataset the intensity was looked up in, for reproducible year-over-year
+   * reports. Absent when `gridCarbonIntensityGPerKwh` or a resolver
+   * supplied the value.
+   */
+  gridDatasetId?: string;
+  gridDatasetYear?: number;
   effectivePowerW: number;
+  powerBreakdown: PowerBreakdown;
   processingTimeSeconds: number;
+
+  /**
+   * Amortized embodied (Scope 3) hardware emissions for the request (g).
+   * Zero when no `embodied` input is given.
+   */
+  embodiedCo2Grams: number;
+
+  /**
+   * Operational plus embodied emissions (g).
+   */
+  totalCo2Grams: number;
+
+  /**
+   * On-site cooling plus off-site generation water consumption (L).
+   */
+  waterLiters: number;
+  waterIntensity: WaterIntensity;
+
+  /**
+   * Time and energy per usage component (prefill, cached input, decode,
+   * reasoning, encoders, tool calls). Present for token-based usage.
+   */
+  usageBreakdown?: UsageBreakdown;
   notes: string[];
+
+  /**
+   * Machine-readable calculation steps. Present with `{ explain: true }`.
+   */
+  trace?: CalculationStep[];
+}
+
+export type UsageComponent =
+  | "input"
+  | "cachedInput"
+  | "output"
+  | "reasoning"
+  | "imageInput"
+  | "audioInput"
+  | "toolCalls";
+
+export interface UsageComponentBreakdown {
+  /**
+   * Tokens, images, audio seconds or tool calls. `input` and `output`
+   * exclude the cached and reasoning tokens.
+   */
+  units: number;
+
+  /**
+   * Processing time before `efficiencyFactor` (s). Present when time is
+   * derived from throughput, except for prefill components covered by
+   * `timeToFirstTokenSeconds`.
+   */
+  seconds?: number;
+
+  /**
+   * Device energy from per-token coefficients (J), before overhead and PUE.
+   */
+  deviceEnergyJoules?: number;
+}
+
+export interface UsageBreakdown {
+  components: Partial<Record<UsageComponent, UsageComponentBreakdown>>;
+  timeToFirstTokenSeconds?: number;
 }
 
 export interface NumericRange {
@@ -375,12 +1355,116 @@ export interface NumericRange {
 
 export interface UncertaintyRanges {
   gpuPowerW?: NumericRange;
+  utilization?: NumericRange;
   pue?: NumericRange;
   overheadFactor?: NumericRange;
   efficiencyFactor?: NumericRange;
   tokensPerSecond?: NumericRange;
+  inputTokensPerSecond?: NumericRange;
+  outputTokensPerSecond?: NumericRange;
+  timeToFirstTokenSeconds?: NumericRange;
+  energyJoulesPerInputToken?: NumericRange;
+  energyJoulesPerOutputToken?: NumericRange;
   audioSecondsPerSecond?: NumericRange;
   pixelsPerSecond?: NumericRange;
+  editPixelsPerSecond?: NumericRange;
+  visionPixelsPerSecond?: NumericRange;
+  videoPixelsPerSecond?: NumericRange;
+  rerankDocumentsPerSecond?: NumericRange;
+  gridCarbonIntensityGPerKwh?: NumericRange;
+}
+
+export type UncertainParameter = keyof UncertaintyRanges;
+
+export interface UniformDistribution {
+  type: "uniform";
+  min: number;
+  max: number;
+}
+
+export interface NormalDistribution {
+  type: "normal";
+  mean: number;
+  stdDev: number;
+  /**
+   * Optional truncation bounds. Samples outside are redrawn.
+   */
+  min?: number;
+  max?: number;
+}
+
+export interface LognormalDistribution {
+  type: "lognormal";
+  /**
+   * Mean and standard deviation of the underlying normal (log-space).
+   * The median of the distribution is `exp(mu)`.
+   */
+  mu: number;
+  sigma: number;
+}
+
+export interface TriangularDistribution {
+  type: "triangular";
+  min: number;
+  mode: number;
+  max: number;
+}
+
+export type ParameterDistribution =
+  | UniformDistribution
+  | NormalDistribution
+  | LognormalDistribution
+  | TriangularDistribution;
+
+export type UncertaintyDistributions = Partial<
+  Record<UncertainParameter, ParameterDistribution>
+>;
+
+export interface DistributionOptions extends EstimateOptions {
+  /**
+   * Number of Monte Carlo samples. Default: 1000.
+   */
+  samples?: number;
+
+  /**
+   * Seed for the pseudo-random generator. Same seed, same result. Default: 1.
+   */
+  seed?: number;
+
+  /**
+   * When set, each summary includes a histogram with this many equal-width bins.
+   */
+  histogramBins?: number;
+}
+
+export interface HistogramBin {
+  lower: number;
+  upper: number;
+  count: number;
+}
+
+export interface DistributionSummary {
+  mean: number;
+  median: number;
+  stdDev: number;
+  p5: number;
+  p95: number;
+  min: number;
+  max: number;
+  histogram?: HistogramBin[];
+}
+
+export interface ImpactDistributionResult {
+  base: ImpactResult;
+  samples: number;
+  seed: number;
+  energyKwh: DistributionSummary;
+  co2Grams: DistributionSummary;
+  /**
+   * Summary of per-sample warnings, e.g. how many PUE draws were clamped.
+   * Individual samples do not raise warnings.
+   */
+  notes: string[];
 }
 
 export interface ImpactRangeResult {
@@ -395,444 +1479,5498 @@ export interface AggregateImpactResult {
   count: number;
   energyKwh: number;
   co2Grams: number;
+  co2GramsLocationBased: number;
+  co2GramsMarketBased: number;
+  embodiedCo2Grams: number;
+  totalCo2Grams: number;
+  waterLiters: number;
+  /**
+   * Sorted ids of the grid intensity datasets the results were looked up in.
+   */
+  gridDatasetIds: string[];
 }
 
-const DEFAULT_OVERHEAD = 1.0;
-const DEFAULT_PUE = 1.0;
+/**
+ * How per-request intervals combine: "worst_case" sums the bounds,
+ * "independent" adds deviations from the base in quadrature.
+ */
+export type IntervalCombination = "worst_case" | "independent";
 
-function clamp(min: number, value: number, max: number): number {
-  return Math.max(min, Math.min(value, max));
+export interface RangeAggregationOptions {
+  /**
+   * Default: "worst_case".
+   */
+  interval?: IntervalCombination;
 }
 
-function resolveGridIntensity(input: {
-  region?: RegionInput;
-  gridCarbonIntensityGPerKwh?: number;
-  gridIntensityResolver?: (input: {
-    region?: RegionInput;
-    timestamp?: Date | number;
-  }) => number;
-  timestamp?: Date | number;
-}): number {
-  if (
-    typeof input.gridCarbonIntensityGPerKwh === "number" &&
-    input.gridCarbonIntensityGPerKwh > 0
-  ) {
-    return input.gridCarbonIntensityGPerKwh;
-  }
+export interface AggregateImpactRangeResult {
+  base: AggregateImpactResult;
+  interval: IntervalCombination;
+  energyKwhMin: number;
+  energyKwhMax: number;
+  co2GramsMin: number;
+  co2GramsMax: number;
+  /**
+   * Coverage caveats, e.g. when corner bounds and p5-p95 intervals are
+   * mixed.
+   */
+  notes: string[];
+}
 
-  const normalizedRegion = normalizeRegion(input.region);
+export type AggregationTimeBucket = "hour" | "day" | "month";
 
-  if (input.gridIntensityResolver) {
-    const resolved = input.gridIntensityResolver({
-      region: normalizedRegion,
-      timestamp: input.timestamp,
-    });
-    if (typeof resolved === "number" && resolved > 0) return resolved;
-  }
+/**
+ * Grouping key: a result field, a time bucket of the record timestamp or a
+ * user-defined tag (`"tag:team"`).
+ */
+export type AggregationDimension =
+  "category" | "region" | "model" | AggregationTimeBucket | `tag:${string}`;
 
-  if (normalizedRegion) {
-    const intensity = DEFAULT_GRID_CARBON_G_PER_KWH[normalizedRegion];
-    if (typeof intensity === "number") return intensity;
-  }
+/**
+ * An impact result plus the context it was estimated in. Only the fields
+ * used for grouping and intensity metrics are needed.
+ */
+export interface AggregationRecord {
+  result: ImpactResult;
+  /**
+   * Usage of the request, for token counts and the category fallback.
+   */
+  usage?: Usage;
+  model?: string;
+  region?: RegionInput;
+  tags?: Record<string, string>;
+  timestamp?: Date | number;
+}
 
-  if (input.region) {
-    console.warn(
-      `Unknown region "${input.region}", falling back to global carbon intensity.`,
-    );
-  }
+export interface GroupedAggregationOptions {
+  groupBy: AggregationDimension | AggregationDimension[];
 
-  return (
-    DEFAULT_GRID_CARBON_G_PER_KWH.global ??
-    BASE_GRID_CARBON_G_PER_KWH.global ??
-    475
-  );
+  /**
+   * IANA time zone for hour/day/month buckets. Default: "UTC".
+   */
+  timeZone?: string;
 }
 
-function requirePositive(name: string, value: number): void {
-  if (!Number.isFinite(value) || value <= 0) {
-    throw new Error(`${name} must be a positive number.`);
-  }
+export interface ImpactIntensityMetrics {
+  /**
+   * Input plus output tokens of records with token-based usage. The per-1k
+   * token metrics only count those records.
+   */
+  tokens: number;
+  co2GramsPer1kTokens?: number;
+  energyKwhPer1kTokens?: number;
+  /**
+   * Energy-weighted grid intensity (co2Grams / energyKwh).
+   */
+  gridCarbonIntensityGPerKwh?: number;
 }
 
-function toKwhFromJoules(joules: number): number {
-  return joules / 3_600_000;
+export interface ImpactGroupStatistics {
+  energyKwh: DistributionSummary;
+  co2Grams: DistributionSummary;
+  totalCo2Grams: DistributionSummary;
+  waterLiters: DistributionSummary;
 }
 
-function deriveProcessingTimeSeconds(
-  usage: Usage,
-  throughput?: ThroughputConfig,
-): number {
-  if (typeof usage.processingTimeSeconds === "number") {
-    requirePositive("processingTimeSeconds", usage.processingTimeSeconds);
-    return usage.processingTimeSeconds;
-  }
+export interface ImpactGroup extends AggregateImpactResult {
+  /**
+   * Dimension to value, e.g. `{ category: "chat.completions", day: "2025-03-01" }`.
+   * Records without a value are grouped under "unknown".
+   */
+  key: Record<string, string>;
+  /**
+   * Stable id built from the key, e.g. `"category=chat.completions|day=2025-03-01"`.
+   */
+  id: string;
+  /**
+   * Per-request statistics within the group.
+   */
+  statistics: ImpactGroupStatistics;
+  intensity: ImpactIntensityMetrics;
+}
+
+export interface GroupedAggregateResult {
+  total: AggregateImpactResult & { intensity: ImpactIntensityMetrics };
+  /**
+   * Groups sorted by id.
+   */
+  groups: ImpactGroup[];
+}
+
+/**
+ * Labels attached to tracked results. Any string label can be grouped on.
+ */
+export interface TrackerLabels {
+  tenant?: string;
+  user?: string;
+  feature?: string;
+  model?: string;
+  [label: string]: string | undefined;
+}
+
+export interface TrackedImpact {
+  result: ImpactResult;
+  labels: TrackerLabels;
+  /**
+   * Epoch ms.
+   */
+  timestamp: number;
+  usage?: Usage;
+}
+
+export interface TrackerSnapshot {
+  /**
+   * Epoch ms when the current window started.
+   */
+  windowStart: number;
+  takenAt: number;
+  totals: AggregateImpactResult;
+  /**
+   * Label name to label value to totals.
+   */
+  byLabel: Record<string, Record<string, AggregateImpactResult>>;
+}
+
+export interface TrackerEventMap {
+  record: TrackedImpact;
+  /**
+   * Snapshot of the window that was closed.
+   */
+  reset: TrackerSnapshot;
+}
+
+export type TrackerEvent = keyof TrackerEventMap;
+
+export interface FootprintTrackerOptions {
+  /**
+   * Labels merged under the labels of every record.
+   */
+  labels?: TrackerLabels;
+  /**
+   * When set, a window older than this is reset before the next record.
+   */
+  windowMs?: number;
+  /**
+   * Records kept for `getRecords()` and `toAggregationRecords()`; the oldest
+   * are dropped first. Totals always cover every record. 0 keeps totals
+   * only. Default: 10000.
+   */
+  maxEntries?: number;
+  /**
+   * Clock returning epoch ms. Default: `Date.now`.
+   */
+  now?: () => number;
+  /**
+   * Options for estimates made through `track()`.
+   */
+  estimateOptions?: EstimateOptions;
+}
+
+export type BudgetPeriod = AggregationTimeBucket | "total";
+
+export type BudgetMetric = "co2Grams" | "energyKwh";
+
+export interface BudgetDefinition {
+  id: string;
+  /**
+   * Labels a record must carry to count against the budget. Empty or
+   * omitted matches every record.
+   */
+  labels?: TrackerLabels;
+  /**
+   * Usage resets at each hour/day/month boundary; "total" never resets.
+   */
+  period: BudgetPeriod;
+  /**
+   * Allowance on `totalCo2Grams` (operational plus embodied).
+   */
+  co2Grams?: number;
+  energyKwh?: number;
+  /**
+   * Used fractions that trigger `onThreshold`. Default: [0.5, 0.8, 1].
+   */
+  thresholds?: number[];
+  /**
+   * "hard" budgets reject pre-flight checks projected to exceed them.
+   * Default: "soft".
+   */
+  mode?: "soft" | "hard";
+}
+
+export interface BudgetMetricStatus {
+  limit: number;
+  used: number;
+  remaining: number;
+  usedPercent: number;
+}
+
+export interface BudgetStatus {
+  budgetId: string;
+  /**
+   * Current period, e.g. "2025-03" for a monthly budget.
+   */
+  period: string;
+  co2Grams?: BudgetMetricStatus;
+  energyKwh?: BudgetMetricStatus;
+  exceeded: boolean;
+}
+
+export interface BudgetThresholdEvent {
+  budgetId: string;
+  metric: BudgetMetric;
+  threshold: number;
+  status: BudgetStatus;
+}
+
+export interface BudgetManagerOptions {
+  budgets: BudgetDefinition[];
+  onThreshold?: (event: BudgetThresholdEvent) => void;
+  /**
+   * Clock returning epoch ms. Default: `Date.now`.
+   */
+  now?: () => number;
+  /**
+   * IANA time zone for period boundaries. Default: "UTC".
+   */
+  timeZone?: string;
+  /**
+   * Options for estimates made through `preflight()`.
+   */
+  estimateOptions?: EstimateOptions;
+}
+
+/**
+ * What a report is built from: individual results, a plain aggregate or a
+ * grouped aggregate (one row per group).
+ */
+export type ReportSource =
+  ImpactResult[] | AggregateImpactResult | GroupedAggregateResult;
+
+export interface TableReportOptions {
+  /**
+   * Columns to include, in order. Default: every column of the source.
+   */
+  columns?: string[];
+  /**
+   * Significant digits for numbers in Markdown tables. Default: 4. CSV
+   * always writes full precision.
+   */
+  precision?: number;
+}
+
+/**
+ * "owned": inference runs on hardware the organization operates, so
+ * electricity is Scope 2 and hardware Scope 3 category 2.
+ * "purchased": inference is bought from a cloud or API provider, so both
+ * are Scope 3 category 1.
+ */
+export type GhgBoundary = "owned" | "purchased";
+
+export interface GhgReportOptions {
+  organization?: string;
+  /**
+   * ISO dates, e.g. `{ start: "2025-01-01", end: "2025-03-31" }`.
+   */
+  period?: { start: string; end: string };
+  /**
+   * Default: "purchased".
+   */
+  boundary?: GhgBoundary;
+}
+
+export interface GhgScopeEntry {
+  scope: "scope2" | "scope3";
+  /**
+   * Scope 2 accounting method. Location- and market-based electricity
+   * entries are alternatives; count one of them in totals.
+   */
+  method?: "location" | "market";
+  /**
+   * Scope 3 category, e.g. "1: Purchased goods and services".
+   */
+  category?: string;
+  description: string;
+  co2Kg: number;
+}
+
+export interface GhgReport {
+  organization?: string;
+  period?: { start: string; end: string };
+  boundary: GhgBoundary;
+  requestCount: number;
+  energyKwh: number;
+  /**
+   * Location-based operational emissions (grid average intensity).
+   */
+  locationBasedCo2Kg: number;
+  /**
+   * Market-based operational emissions (contractual instruments, supplier
+   * or residual mix factors).
+   */
+  marketBasedCo2Kg: number;
+  embodiedCo2Kg: number;
+  totalCo2Kg: number;
+  waterLiters: number;
+  scopes: GhgScopeEntry[];
+  gridDatasets: GridIntensityDatasetMetadata[];
+  assumptions: string[];
+}
+
+const DEFAULT_OVERHEAD = 1.0;
+const DEFAULT_PUE = 1.0;
+const OVERHEAD_BOUNDS = { min: 0.1, max: 10 };
+const PUE_BOUNDS = { min: 1.0, max: 3.0 };
+
+function clamp(min: number, value: number, max: number): number {
+  return Math.max(min, Math.min(value, max));
+}
+
+/**
+ * Describes how a value outside its bounds is clamped, or undefined if it fits.
+ */
+function describeClamp(
+  path: string,
+  value: number,
+  bounds: { min: number; max: number },
+): string | undefined {
+  const clamped = clamp(bounds.min, value, bounds.max);
+  if (clamped === value) return undefined;
+  return `${path} ${value} is outside ${bounds.min}-${bounds.max}; clamped to ${clamped}.`;
+}
 
+function resolveGridIntensity(
+  input: {
+    region?: RegionInput;
+    gridCarbonIntensityGPerKwh?: number;
+    gridIntensityResolver?: (input: {
+      region?: RegionInput;
+      timestamp?: Date | number;
+    }) => number;
+    timestamp?: Date | number;
+    dataset?: GridIntensityDataset;
+  },
+  warn: WarningEmitter = emitWarning,
+): { value: number; source: "explicit" | "resolver" | "region" | "global" } {
   if (
-    usage.category === "chat.completions" ||
-    usage.category === "text.completions" ||
-    usage.category === "ocr"
+    typeof input.gridCarbonIntensityGPerKwh === "number" &&
+    input.gridCarbonIntensityGPerKwh > 0
   ) {
-    requirePositive("inputTokens", usage.inputTokens);
-    requirePositive("outputTokens", usage.outputTokens);
-    const tps = throughput?.tokensPerSecond;
-    requirePositive("throughput.tokensPerSecond", tps ?? NaN);
-    return (usage.inputTokens + usage.outputTokens) / (tps as number);
+    return { value: input.gridCarbonIntensityGPerKwh, source: "explicit" };
   }
 
-  if (usage.category === "embeddings") {
-    requirePositive("inputTokens", usage.inputTokens);
-    const tps = throughput?.tokensPerSecond;
-    requirePositive("throughput.tokensPerSecond", tps ?? NaN);
-    return usage.inputTokens / (tps as number);
+  const values = input.dataset?.values ?? DEFAULT_GRID_CARBON_G_PER_KWH;
+  const normalizedRegion = normalizeRegion(input.region, values);
+
+  if (input.gridIntensityResolver) {
+    const resolved = input.gridIntensityResolver({
+      region: normalizedRegion,
+      timestamp: input.timestamp,
+    });
+    if (typeof resolved === "number" && resolved > 0) {
+      return { value: resolved, source: "resolver" };
+    }
   }
 
-  if (
-    usage.category === "audio.transcription" ||
-    usage.category === "audio.translation" ||
-    usage.category === "audio.speech"
-  ) {
-    requirePositive("audioSeconds", usage.audioSeconds);
-    const aps = throughput?.audioSecondsPerSecond;
-    requirePositive("throughput.audioSecondsPerSecond", aps ?? NaN);
-    return usage.audioSeconds / (aps as number);
+  if (normalizedRegion) {
+    const intensity = lookupRegionValue(values, normalizedRegion);
+    if (typeof intensity === "number") {
+      return { value: intensity, source: "region" };
+    }
+  }
+
+  if (input.region) {
+    warn(
+      "region",
+      "unknown_region",
+      `Unknown region "${input.region}", falling back to global carbon intensity.`,
+    );
+  }
+
+  return {
+    value:
+      values.global ??
+      DEFAULT_GRID_CARBON_G_PER_KWH.global ??
+      BASE_GRID_CARBON_G_PER_KWH.global ??
+      475,
+    source: "global",
+  };
+}
+
+function pickPositive(
+  ...values: Array<number | undefined>
+): number | undefined {
+  return values.find(
+    (value): value is number => typeof value === "number" && value > 0,
+  );
+}
+
+/**
+ * Same precedence as grid intensity, per component:
+ * explicit value → resolver → region default → global default.
+ */
+function resolveWaterIntensity(
+  input: {
+    region?: RegionInput;
+    timestamp?: Date | number;
+    water?: WaterOptions;
+  },
+  warn: WarningEmitter,
+): WaterIntensity {
+  for (const key of findIgnoredWaterKeys(input.water)) {
+    warn(`water.${key}`, "ignored", describeIgnoredWaterKey(key));
+  }
+  const normalizedRegion = normalizeRegion(input.region);
+  const resolved = input.water?.waterIntensityResolver?.({
+    region: normalizedRegion,
+    timestamp: input.timestamp,
+  });
+  const regionKey = normalizedRegion ?? "global";
+
+  return {
+    onsiteWueLitersPerKwh:
+      pickPositive(
+        input.water?.onsiteWueLitersPerKwh,
+        resolved?.onsiteWueLitersPerKwh,
+        lookupRegionValue(DEFAULT_ONSITE_WUE_L_PER_KWH, regionKey),
+        DEFAULT_ONSITE_WUE_L_PER_KWH.global,
+      ) ?? 0,
+    offsiteLitersPerKwh:
+      pickPositive(
+        input.water?.offsiteLitersPerKwh,
+        resolved?.offsiteLitersPerKwh,
+        lookupRegionValue(DEFAULT_OFFSITE_WATER_L_PER_KWH, regionKey),
+        DEFAULT_OFFSITE_WATER_L_PER_KWH.global,
+      ) ?? 0,
+  };
+}
+
+function findIgnoredWaterKeys(
+  water?: WaterOptions,
+): Array<keyof WaterIntensity> {
+  return (["onsiteWueLitersPerKwh", "offsiteLitersPerKwh"] as const).filter(
+    (key) => {
+      const value = water?.[key];
+      return value !== undefined && !(value > 0);
+    },
+  );
+}
+
+function describeIgnoredWaterKey(key: keyof WaterIntensity): string {
+  return `water.${key} must be positive; the regional default is used instead.`;
+}
+
+export type ValidationIssueCode =
+  | "required"
+  | "not_positive"
+  | "not_fraction"
+  | "not_integer"
+  | "invalid_range"
+  | "invalid_value"
+  | "duplicate"
+  | "clamped"
+  | "ignored"
+  | "unknown_region"
+  | "unknown_hardware"
+  | "unknown_dataset";
+
+export type ValidationSeverity = "error" | "warning";
+
+export interface ValidationIssue {
+  /**
+   * Input path of the offending field (e.g. "efficiency.pue", "throughput.tokensPerSecond").
+   */
+  path: string;
+  code: ValidationIssueCode;
+  severity: ValidationSeverity;
+  message: string;
+}
+
+export interface ValidationResult {
+  /**
+   * True when no issue has severity "error".
+   */
+  valid: boolean;
+  issues: ValidationIssue[];
+}
+
+export interface EstimateOptions {
+  /**
+   * Treat unknown regions, clamped PUE/overhead and ignored values as errors
+   * instead of warnings. All issues are reported together.
+   */
+  strict?: boolean;
+
+  /**
+   * Include the calculation trace (`ImpactResult.trace`).
+   */
+  explain?: boolean;
+}
+
+/**
+ * Base class for every error thrown by ai-footprint.
+ */
+export class FootprintError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FootprintError";
+  }
+}
+
+/**
+ * Invalid input. `issues` lists every problem found; the message is the
+ * first issue's message when there is only one.
+ */
+export class ImpactValidationError extends FootprintError {
+  readonly issues: ValidationIssue[];
+
+  constructor(issues: ValidationIssue[]) {
+    super(
+      issues.length === 1
+        ? (issues[0] as ValidationIssue).message
+        : `${issues.length} invalid inputs: ${issues
+            .map((issue) => issue.message)
+            .join(" ")}`,
+    );
+    this.name = "ImpactValidationError";
+    this.issues = issues;
+  }
+}
+
+/**
+ * A provider response passed to an adapter lacks the expected usage fields.
+ */
+export class ProviderResponseError extends FootprintError {
+  readonly provider: string;
+
+  constructor(provider: string, message: string) {
+    super(message);
+    this.name = "ProviderResponseError";
+    this.provider = provider;
+  }
+}
+
+/**
+ * Malformed grid intensity CSV. `line` is the 1-based file line when known.
+ */
+export class GridIntensityCsvError extends FootprintError {
+  readonly line?: number;
+
+  constructor(message: string, line?: number) {
+    super(message);
+    this.name = "GridIntensityCsvError";
+    this.line = line;
+  }
+}
+
+/**
+ * A hard budget would be exceeded by the request checked in `preflight()`.
+ * `statuses` are the projected statuses of the exceeded budgets.
+ */
+export class BudgetExceededError extends FootprintError {
+  readonly statuses: BudgetStatus[];
+
+  constructor(statuses: BudgetStatus[]) {
+    super(
+      `Budget exceeded: ${statuses.map((status) => status.budgetId).join(", ")}.`,
+    );
+    this.name = "BudgetExceededError";
+    this.statuses = statuses;
   }
+}
+
+export type WarningSink = (warning: ValidationIssue) => void;
+
+const consoleWarningSink: WarningSink = (warning) =>
+  console.warn(warning.message);
+
+let warningSink: WarningSink = consoleWarningSink;
+
+/**
+ * Routes warnings (unknown regions, clamped values) to a custom sink, e.g. a
+ * logger or metrics counter. Call without arguments to restore `console.warn`.
+ */
+export function setWarningSink(sink?: WarningSink): void {
+  warningSink = sink ?? consoleWarningSink;
+}
+
+type WarningEmitter = (
+  path: string,
+  code: ValidationIssueCode,
+  message: string,
+) => void;
+
+const emitWarning: WarningEmitter = (path, code, message) =>
+  warningSink({ path, code, severity: "warning", message });
+
+function invalid(
+  path: string,
+  code: ValidationIssueCode,
+  message: string,
+): ImpactValidationError {
+  return new ImpactValidationError([
+    { path, code, severity: "error", message },
+  ]);
+}
+
+function requireInteger(name: string, value: number): void {
+  if (!Number.isInteger(value)) {
+    throw invalid(name, "not_integer", `${name} must be an integer.`);
+  }
+}
+
+function requirePositive(name: string, value: number): void {
+  if (!Number.isFinite(value) || value <= 0) {
+    throw invalid(name, "not_positive", `${name} must be a positive number.`);
+  }
+}
+
+function requireFraction(name: string, value: number): void {
+  if (!Number.isFinite(value) || value < 0 || value > 1) {
+    throw invalid(
+      name,
+      "not_fraction",
+      `${name} must be a number between 0 and 1.`,
+    );
+  }
+}
+
+function toKwhFromJoules(joules: number): number {
+  return joules / 3_600_000;
+}
+
+type TokenUsage =
+  | ChatCompletionUsage
+  | TextCompletionUsage
+  | OcrUsage
+  | EmbeddingsUsage
+  | ModerationUsage
+  | (RerankUsage & { inputTokens: number });
+
+/**
+ * Usage costed per token: prefill/decode rates and per-token energy apply.
+ * Rerank counts only when it reports tokens.
+ */
+function isTokenUsage(usage: Usage): usage is TokenUsage {
+  return (
+    usage.category === "chat.completions" ||
+    usage.category === "text.completions" ||
+    usage.category === "ocr" ||
+    usage.category === "embeddings" ||
+    usage.category === "moderation" ||
+    (usage.category === "rerank" && usage.inputTokens !== undefined)
+  );
+}
+
+/**
+ * Token usage with a decode phase; input-only usage ignores
+ * `timeToFirstTokenSeconds`.
+ */
+function generatesTokens(
+  usage: TokenUsage,
+): usage is ChatCompletionUsage | TextCompletionUsage | OcrUsage {
+  return "outputTokens" in usage;
+}
+
+/**
+ * Prefill or decode rate, falling back to the shared `tokensPerSecond`.
+ */
+function resolveTokenRate(
+  throughput: ThroughputConfig | undefined,
+  key: "inputTokensPerSecond" | "outputTokensPerSecond",
+): number {
+  const specific = throughput?.[key];
+  const rate = specific ?? throughput?.tokensPerSecond;
+  const usesSplitRates =
+    throughput?.inputTokensPerSecond !== undefined ||
+    throughput?.outputTokensPerSecond !== undefined;
+  requirePositive(
+    specific !== undefined ||
+      (usesSplitRates && throughput?.tokensPerSecond === undefined)
+      ? `throughput.${key}`
+      : "throughput.tokensPerSecond",
+    rate ?? NaN,
+  );
+  return rate as number;
+}
+
+const DEFAULT_CACHED_INPUT_TOKEN_WEIGHT = 0.1;
+
+const TOKEN_ENERGY_KEYS = [
+  "energyJoulesPerInputToken",
+  "energyJoulesPerOutputToken",
+  "energyJoulesPerImageInput",
+  "energyJoulesPerAudioInputSecond",
+  "energyJoulesPerToolCall",
+] as const;
+
+type TokenEnergyKey = (typeof TOKEN_ENERGY_KEYS)[number];
+
+interface UsageComponentCost {
+  component: UsageComponent;
+  units: number;
+  /**
+   * Part of prefill, so covered by `timeToFirstTokenSeconds`.
+   */
+  prefill: boolean;
+  /**
+   * A rate is configured, so seconds can be derived.
+   */
+  timed: boolean;
+  secondsPerUnit: () => number;
+  energyJoulesPerUnit: () => number;
+}
+
+/**
+ * Splits token usage into components with their own time and energy cost.
+ * Cached input and reasoning tokens are parts of `inputTokens` and
+ * `outputTokens`, weighted against the regular prefill and decode cost.
+ * Rates and coefficients are only read (and validated) when used.
+ */
+function listUsageCosts(
+  usage: TokenUsage,
+  throughput?: ThroughputConfig,
+): UsageComponentCost[] {
+  const details: Partial<ChatCompletionUsage> =
+    usage.category === "chat.completions"
+      ? usage
+      : usage.category === "moderation"
+        ? { imageInputs: usage.images }
+        : {};
+  const imageField = usage.category === "moderation" ? "images" : "imageInputs";
+
+  const requireSetting = (
+    key: keyof ThroughputConfig,
+    reason: string,
+  ): number => {
+    const value = throughput?.[key];
+    const path = `throughput.${key}`;
+    if (value === undefined) {
+      throw invalid(path, "required", `${path} is required for ${reason}.`);
+    }
+    return value;
+  };
+  const rate = (key: keyof ThroughputConfig, reason: string): number => {
+    const value = requireSetting(key, reason);
+    requirePositive(`throughput.${key}`, value);
+    return value;
+  };
+  const energy = (key: TokenEnergyKey): number => {
+    const value = requireSetting(
+      key,
+      `per-token energy with ${usage.category}`,
+    );
+    requireNonNegative(`throughput.${key}`, value);
+    return value;
+  };
+  const isSet = (key: keyof ThroughputConfig): boolean =>
+    throughput?.[key] !== undefined;
+
+  const cachedWeight =
+    throughput?.cachedInputTokenWeight ?? DEFAULT_CACHED_INPUT_TOKEN_WEIGHT;
+  const reasoningWeight = throughput?.reasoningTokenWeight ?? 1;
+  requireNonNegative("throughput.cachedInputTokenWeight", cachedWeight);
+  requireNonNegative("throughput.reasoningTokenWeight", reasoningWeight);
+
+  const cached = details.cachedInputTokens ?? 0;
+  requireNonNegative("cachedInputTokens", cached);
+  if (cached > usage.inputTokens) {
+    throw invalid(
+      "cachedInputTokens",
+      "invalid_range",
+      "cachedInputTokens must not exceed inputTokens.",
+    );
+  }
+
+  const inputSeconds = () =>
+    1 / resolveTokenRate(throughput, "inputTokensPerSecond");
+  const inputTimed = isSet("tokensPerSecond") || isSet("inputTokensPerSecond");
+  const costs: UsageComponentCost[] = [
+    {
+      component: "input",
+      units: usage.inputTokens - cached,
+      prefill: true,
+      timed: inputTimed,
+      secondsPerUnit: inputSeconds,
+      energyJoulesPerUnit: () => energy("energyJoulesPerInputToken"),
+    },
+  ];
+  if (details.cachedInputTokens !== undefined) {
+    costs.push({
+      component: "cachedInput",
+      units: cached,
+      prefill: true,
+      timed: inputTimed,
+      secondsPerUnit: () => cachedWeight * inputSeconds(),
+      energyJoulesPerUnit: () =>
+        cachedWeight * energy("energyJoulesPerInputToken"),
+    });
+  }
+
+  if (usage.category === "rerank") {
+    requirePositive("documents", usage.documents);
+    requirePositive("queries", usage.queries);
+  }
+
+  if (generatesTokens(usage)) {
+    const reasoning = details.reasoningTokens ?? 0;
+    requireNonNegative("reasoningTokens", reasoning);
+    if (reasoning > usage.outputTokens) {
+      throw invalid(
+        "reasoningTokens",
+        "invalid_range",
+        "reasoningTokens must not exceed outputTokens.",
+      );
+    }
+    const outputSeconds = () =>
+      1 / resolveTokenRate(throughput, "outputTokensPerSecond");
+    const outputTimed =
+      isSet("tokensPerSecond") || isSet("outputTokensPerSecond");
+    costs.push({
+      component: "output",
+      units: usage.outputTokens - reasoning,
+      prefill: false,
+      timed: outputTimed,
+      secondsPerUnit: outputSeconds,
+      energyJoulesPerUnit: () => energy("energyJoulesPerOutputToken"),
+    });
+    if (details.reasoningTokens !== undefined) {
+      costs.push({
+        component: "reasoning",
+        units: reasoning,
+        prefill: false,
+        timed: outputTimed,
+        secondsPerUnit: () => reasoningWeight * outputSeconds(),
+        energyJoulesPerUnit: () =>
+          reasoningWeight * energy("energyJoulesPerOutputToken"),
+      });
+    }
+  }
+
+  if (details.imageInputs !== undefined) {
+    requireNonNegative(imageField, details.imageInputs);
+    costs.push({
+      component: "imageInput",
+      units: details.imageInputs,
+      prefill: true,
+      timed: isSet("imageInputsPerSecond"),
+      secondsPerUnit: () => 1 / rate("imageInputsPerSecond", imageField),
+      energyJoulesPerUnit: () => energy("energyJoulesPerImageInput"),
+    });
+  }
+  if (details.audioInputSeconds !== undefined) {
+    requireNonNegative("audioInputSeconds", details.audioInputSeconds);
+    costs.push({
+      component: "audioInput",
+      units: details.audioInputSeconds,
+      prefill: true,
+      timed: isSet("audioInputSecondsPerSecond"),
+      secondsPerUnit: () =>
+        1 / rate("audioInputSecondsPerSecond", "audioInputSeconds"),
+      energyJoulesPerUnit: () => energy("energyJoulesPerAudioInputSecond"),
+    });
+  }
+  if (details.toolCalls !== undefined) {
+    requireNonNegative("toolCalls", details.toolCalls);
+    costs.push({
+      component: "toolCalls",
+      units: details.toolCalls,
+      prefill: false,
+      timed: isSet("toolCallOverheadSeconds"),
+      secondsPerUnit: () => {
+        const seconds = requireSetting("toolCallOverheadSeconds", "toolCalls");
+        requireNonNegative("throughput.toolCallOverheadSeconds", seconds);
+        return seconds;
+      },
+      energyJoulesPerUnit: () => energy("energyJoulesPerToolCall"),
+    });
+  }
+
+  return costs;
+}
+
+function describeTokenUsage(
+  usage: TokenUsage,
+  throughput: ThroughputConfig | undefined,
+  include: { seconds: boolean; energy: boolean },
+): UsageBreakdown {
+  const ttft = generatesTokens(usage)
+    ? throughput?.timeToFirstTokenSeconds
+    : undefined;
+  if (include.seconds && ttft !== undefined) {
+    requirePositive("throughput.timeToFirstTokenSeconds", ttft);
+  }
+
+  const components: UsageBreakdown["components"] = {};
+  for (const cost of listUsageCosts(usage, throughput)) {
+    const entry: UsageComponentBreakdown = { units: cost.units };
+    if (include.seconds && !(cost.prefill && ttft !== undefined)) {
+      entry.seconds = cost.units > 0 ? cost.units * cost.secondsPerUnit() : 0;
+    }
+    if (include.energy) {
+      entry.deviceEnergyJoules =
+        cost.units > 0 ? cost.units * cost.energyJoulesPerUnit() : 0;
+    }
+    components[cost.component] = entry;
+  }
+
+  return include.seconds && ttft !== undefined
+    ? { components, timeToFirstTokenSeconds: ttft }
+    : { components };
+}
+
+/**
+ * True when the throughput is enough to derive a processing time for the
+ * usage, so per-token energy can be used without any rate.
+ */
+function hasTokenRates(usage: Usage, throughput?: ThroughputConfig): boolean {
+  if (typeof usage.processingTimeSeconds === "number") return true;
+  if (!isTokenUsage(usage)) return false;
+  const ttft =
+    generatesTokens(usage) && throughput?.timeToFirstTokenSeconds !== undefined;
+  return listUsageCosts(usage, throughput).every(
+    (cost) => cost.timed || cost.units === 0 || (cost.prefill && ttft),
+  );
+}
+
+/**
+ * Device energy from per-token coefficients (J), or null when none is set
+ * or the usage is not token-based. Every component in the usage needs a
+ * coefficient once one is given.
+ */
+function resolveTokenEnergyJoules(
+  usage: Usage,
+  throughput?: ThroughputConfig,
+): number | null {
+  if (
+    !isTokenUsage(usage) ||
+    !TOKEN_ENERGY_KEYS.some((key) => throughput?.[key] !== undefined)
+  ) {
+    return null;
+  }
+  const { components } = describeTokenUsage(usage, throughput, {
+    seconds: false,
+    energy: true,
+  });
+  return Object.values(components).reduce(
+    (sum, entry) => sum + (entry.deviceEnergyJoules ?? 0),
+    0,
+  );
+}
+
+/**
+ * A per-token energy coefficient set for usage that is not costed per
+ * token (audio, images, video, rerank without tokens), where it is ignored.
+ */
+function findIgnoredTokenEnergyKey(
+  usage: Usage,
+  throughput?: ThroughputConfig,
+): TokenEnergyKey | undefined {
+  if (isTokenUsage(usage)) return undefined;
+  return TOKEN_ENERGY_KEYS.find((key) => throughput?.[key] !== undefined);
+}
+
+function describeIgnoredTokenEnergy(usage: Usage, key: TokenEnergyKey): string {
+  return `throughput.${key} is ignored for ${usage.category} usage, which is not costed per token.`;
+}
+
+function deriveProcessingTimeSeconds(
+  usage: Usage,
+  throughput?: ThroughputConfig,
+): number {
+  if (typeof usage.processingTimeSeconds === "number") {
+    requirePositive("processingTimeSeconds", usage.processingTimeSeconds);
+    return usage.processingTimeSeconds;
+  }
+
+  if (isTokenUsage(usage)) {
+    requirePositive("inputTokens", usage.inputTokens);
+    // Tool-call-only turns can generate no text.
+    if (generatesTokens(usage)) {
+      requireNonNegative("outputTokens", usage.outputTokens);
+    }
+    const breakdown = describeTokenUsage(usage, throughput, {
+      seconds: true,
+      energy: false,
+    });
+    return Object.values(breakdown.components).reduce(
+      (sum, entry) => sum + (entry.seconds ?? 0),
+      breakdown.timeToFirstTokenSeconds ?? 0,
+    );
+  }
+
+  if (
+    usage.category === "audio.transcription" ||
+    usage.category === "audio.translation" ||
+    usage.category === "audio.speech"
+  ) {
+    requirePositive("audioSeconds", usage.audioSeconds);
+    const aps = throughput?.audioSecondsPerSecond;
+    requirePositive("throughput.audioSecondsPerSecond", aps ?? NaN);
+    return usage.audioSeconds / (aps as number);
+  }
+
+  if (usage.category === "image.generation") {
+    requirePositive("width", usage.width);
+    requirePositive("height", usage.height);
+    requirePositive("images", usage.images);
+    const pps = throughput?.pixelsPerSecond;
+    requirePositive("throughput.pixelsPerSecond", pps ?? NaN);
+    const totalPixels = usage.width * usage.height * usage.images;
+    return totalPixels / (pps as number);
+  }
+
+  if (usage.category === "image.edit") {
+    requirePositive("width", usage.width);
+    requirePositive("height", usage.height);
+    requirePositive("images", usage.images);
+    const pps = throughput?.editPixelsPerSecond ?? throughput?.pixelsPerSecond;
+    requirePositive(
+      throughput?.editPixelsPerSecond !== undefined
+        ? "throughput.editPixelsPerSecond"
+        : "throughput.pixelsPerSecond",
+      pps ?? NaN,
+    );
+    return (usage.width * usage.height * usage.images) / (pps as number);
+  }
+
+  if (usage.category === "image.understanding") {
+    requirePositive("width", usage.width);
+    requirePositive("height", usage.height);
+    requirePositive("images", usage.images);
+    const pps = throughput?.visionPixelsPerSecond;
+    requirePositive("throughput.visionPixelsPerSecond", pps ?? NaN);
+    return (usage.width * usage.height * usage.images) / (pps as number);
+  }
+
+  if (usage.category === "video.generation") {
+    requirePositive("width", usage.width);
+    requirePositive("height", usage.height);
+    requirePositive("fps", usage.fps);
+    requirePositive("durationSeconds", usage.durationSeconds);
+    requirePositive("videos", usage.videos);
+    const pps = throughput?.videoPixelsPerSecond;
+    requirePositive("throughput.videoPixelsPerSecond", pps ?? NaN);
+    const totalPixels =
+      usage.width *
+      usage.height *
+      usage.fps *
+      usage.durationSeconds *
+      usage.videos;
+    return totalPixels / (pps as number);
+  }
+
+  // Rerank with token counts and moderation are costed as token usage above.
+  if (usage.category === "rerank") {
+    requirePositive("documents", usage.documents);
+    requirePositive("queries", usage.queries);
+    const dps = throughput?.rerankDocumentsPerSecond;
+    requirePositive("throughput.rerankDocumentsPerSecond", dps ?? NaN);
+    return (usage.queries * usage.documents) / (dps as number);
+  }
+
+  throw invalid(
+    "usage.category",
+    "invalid_value",
+    "Unsupported usage category.",
+  );
+}
+
+function resolveEnergyKwh(energy?: EnergyInputs): number | null {
+  if (energy?.energyKwh && energy.energyKwh > 0) return energy.energyKwh;
+  if (energy?.energyJoules && energy.energyJoules > 0) {
+    return toKwhFromJoules(energy.energyJoules);
+  }
+  return null;
+}
+
+/**
+ * Whether energy comes from device power. Energy overrides and per-token
+ * energy only use overhead and PUE, so they need no `gpuPowerW` or
+ * `hardware`.
+ */
+function usesDevicePower(input: ImpactInputs): boolean {
+  if (resolveEnergyKwh(input.energy) !== null) return false;
+  const { usage, throughput } = input;
+  return !(
+    usage &&
+    isTokenUsage(usage) &&
+    TOKEN_ENERGY_KEYS.some((key) => throughput?.[key] !== undefined)
+  );
+}
+
+function interpolateUtilizationCurve(
+  utilization: number,
+  curve?: UtilizationCurvePoint[],
+): number {
+  if (!curve || curve.length === 0) return utilization;
+
+  // Validate before sorting so paths index the caller's array.
+  curve.forEach((point, index) => {
+    requireFraction(
+      `powerModel.utilizationCurve[${index}].utilization`,
+      point.utilization,
+    );
+    requireFraction(
+      `powerModel.utilizationCurve[${index}].powerFraction`,
+      point.powerFraction,
+    );
+  });
+  const points = [...curve].sort((a, b) => a.utilization - b.utilization);
+
+  const first = points[0] as UtilizationCurvePoint;
+  const last = points[points.length - 1] as UtilizationCurvePoint;
+  if (utilization <= first.utilization) return first.powerFraction;
+  if (utilization >= last.utilization) return last.powerFraction;
+
+  for (let i = 1; i < points.length; i++) {
+    const upper = points[i] as UtilizationCurvePoint;
+    const lower = points[i - 1] as UtilizationCurvePoint;
+    if (utilization <= upper.utilization) {
+      const span = upper.utilization - lower.utilization;
+      if (span === 0) return upper.powerFraction;
+      const t = (utilization - lower.utilization) / span;
+      return (
+        lower.powerFraction + t * (upper.powerFraction - lower.powerFraction)
+      );
+    }
+  }
+
+  return last.powerFraction;
+}
+
+const UTILIZATION_POWER_KEYS = [
+  "utilization",
+  "utilizationCurve",
+  "idlePowerW",
+  "tdpW",
+] as const;
+
+/**
+ * Utilization model settings that an explicit `gpuPowerW` overrides.
+ */
+function findIgnoredPowerModelKeys(
+  gpuPowerW: number | undefined,
+  powerModel: PowerModelOptions | undefined,
+): Array<(typeof UTILIZATION_POWER_KEYS)[number]> {
+  if (typeof gpuPowerW !== "number") return [];
+  return UTILIZATION_POWER_KEYS.filter(
+    (key) => powerModel?.[key] !== undefined,
+  );
+}
+
+function describeIgnoredPowerModelKey(key: string): string {
+  return `powerModel.${key} is ignored because gpuPowerW is set.`;
+}
+
+function resolvePerDevicePowerW(
+  gpuPowerW: number | undefined,
+  hardware: HardwareProfile | undefined,
+  powerModel: PowerModelOptions | undefined,
+): { perDevicePowerW: number; utilization?: number } {
+  if (typeof gpuPowerW === "number") {
+    requirePositive("gpuPowerW", gpuPowerW);
+    return { perDevicePowerW: gpuPowerW };
+  }
+
+  if (typeof powerModel?.utilization === "number") {
+    const utilization = powerModel.utilization;
+    requireFraction("powerModel.utilization", utilization);
+    const idlePowerW = powerModel.idlePowerW ?? hardware?.idlePowerW;
+    const tdpW = powerModel.tdpW ?? hardware?.tdpW;
+    if (idlePowerW === undefined || tdpW === undefined) {
+      throw invalid(
+        "powerModel.utilization",
+        "required",
+        "powerModel.utilization requires idle and TDP power: set hardware or powerModel.idlePowerW and powerModel.tdpW.",
+      );
+    }
+    requirePositive("powerModel.idlePowerW", idlePowerW);
+    requirePositive("powerModel.tdpW", tdpW);
+    if (tdpW < idlePowerW) {
+      throw invalid(
+        "powerModel.tdpW",
+        "invalid_range",
+        "powerModel.tdpW must be >= powerModel.idlePowerW.",
+      );
+    }
+    const fraction = interpolateUtilizationCurve(
+      utilization,
+      powerModel.utilizationCurve,
+    );
+    return {
+      perDevicePowerW: idlePowerW + (tdpW - idlePowerW) * fraction,
+      utilization,
+    };
+  }
+
+  const typicalPowerW = hardware?.typicalInferencePowerW;
+  requirePositive("gpuPowerW", typicalPowerW ?? NaN);
+  return { perDevicePowerW: typicalPowerW as number };
+}
+
+function computeEffectivePowerW(
+  input: ImpactInputs | MinimalImpactInputs,
+  warn: WarningEmitter = emitWarning,
+  devicePowerUsed = true,
+): {
+  effectivePowerW: number;
+  powerBreakdown: PowerBreakdown;
+  trace: CalculationStep[];
+} {
+  const trace: CalculationStep[] = [];
+  const hardware = resolveHardwareProfile(input.hardware);
+  const powerModel = (input as ImpactInputs).powerModel;
+
+  // Without a power source, device power is reported as 0 when unused.
+  const { perDevicePowerW, utilization } =
+    devicePowerUsed || input.gpuPowerW !== undefined || hardware
+      ? resolvePerDevicePowerW(input.gpuPowerW, hardware, powerModel)
+      : { perDevicePowerW: 0 };
+  for (const key of findIgnoredPowerModelKeys(input.gpuPowerW, powerModel)) {
+    warn(`powerModel.${key}`, "ignored", describeIgnoredPowerModelKey(key));
+  }
+
+  const deviceCount = powerModel?.deviceCount ?? 1;
+  requirePositive("powerModel.deviceCount", deviceCount);
+  requireInteger("powerModel.deviceCount", deviceCount);
+  const devicePowerW = perDevicePowerW * deviceCount;
+
+  const cpuPowerW = (input as ImpactInputs).cpuPowerW ?? 0;
+  const networkPowerW = (input as ImpactInputs).networkPowerW ?? 0;
+
+  if (cpuPowerW) requirePositive("cpuPowerW", cpuPowerW);
+  if (networkPowerW) requirePositive("networkPowerW", networkPowerW);
+
+  let nodeIdlePowerW = 0;
+  if (powerModel?.nodeIdlePowerW) {
+    requirePositive("powerModel.nodeIdlePowerW", powerModel.nodeIdlePowerW);
+    const share = powerModel.nodeIdleShare ?? 1;
+    requireFraction("powerModel.nodeIdleShare", share);
+    nodeIdlePowerW = powerModel.nodeIdlePowerW * share;
+  }
+
+  const basePowerW = devicePowerW + cpuPowerW + networkPowerW + nodeIdlePowerW;
+
+  const requestedOverhead =
+    (input as ImpactInputs).efficiency?.overheadFactor ?? DEFAULT_OVERHEAD;
+  const overheadFactor = clamp(
+    OVERHEAD_BOUNDS.min,
+    requestedOverhead,
+    OVERHEAD_BOUNDS.max,
+  );
+  const explicitPue = (input as ImpactInputs).efficiency?.pue;
+  const cloudRegion = input.region ? getCloudRegion(input.region) : undefined;
+  const requestedPue = explicitPue ?? cloudRegion?.pue ?? DEFAULT_PUE;
+  const pue = clamp(PUE_BOUNDS.min, requestedPue, PUE_BOUNDS.max);
+
+  const overheadClamp = describeClamp(
+    "efficiency.overheadFactor",
+    requestedOverhead,
+    OVERHEAD_BOUNDS,
+  );
+  if (overheadClamp) {
+    warn("efficiency.overheadFactor", "clamped", overheadClamp);
+  }
+  const pueClamp = describeClamp("efficiency.pue", requestedPue, PUE_BOUNDS);
+  if (pueClamp) warn("efficiency.pue", "clamped", pueClamp);
+
+  const effectivePowerW = basePowerW * overheadFactor * pue;
+
+  if (hardware) {
+    trace.push({
+      kind: "hardware",
+      inputs: { hardware: { value: input.hardware as string } },
+      outputs: {
+        id: { value: hardware.id },
+        name: { value: hardware.name },
+        typicalInferencePowerW: {
+          value: hardware.typicalInferencePowerW,
+          unit: "W",
+        },
+        source: { value: hardware.source },
+      },
+    });
+  }
+  trace.push({
+    kind: "power",
+    inputs: {
+      deviceCount: { value: deviceCount },
+      perDevicePowerW: { value: perDevicePowerW, unit: "W" },
+      ...(typeof utilization === "number"
+        ? { utilization: { value: utilization, unit: "fraction" } }
+        : {}),
+      cpuPowerW: { value: cpuPowerW, unit: "W" },
+      networkPowerW: { value: networkPowerW, unit: "W" },
+      nodeIdlePowerW: { value: nodeIdlePowerW, unit: "W" },
+    },
+    outputs: {
+      devicePowerW: { value: devicePowerW, unit: "W" },
+      basePowerW: { value: basePowerW, unit: "W" },
+    },
+  });
+  trace.push({
+    kind: "overhead",
+    inputs: { requested: { value: requestedOverhead, unit: "x" } },
+    outputs: {
+      overheadFactor: { value: overheadFactor, unit: "x" },
+      clamped: { value: overheadFactor !== requestedOverhead },
+    },
+  });
+  trace.push({
+    kind: "pue",
+    inputs: {
+      requested: { value: requestedPue, unit: "x" },
+      source: {
+        value:
+          explicitPue !== undefined
+            ? "efficiency.pue"
+            : cloudRegion
+              ? "cloud region"
+              : "default",
+      },
+    },
+    outputs: {
+      pue: { value: pue, unit: "x" },
+      clamped: { value: pue !== requestedPue },
+      effectivePowerW: { value: effectivePowerW, unit: "W" },
+    },
+  });
+  if (cloudRegion) {
+    trace.push({
+      kind: "cloud_region",
+      inputs: { region: { value: String(input.region) } },
+      outputs: {
+        provider: { value: cloudRegion.provider },
+        providerName: { value: cloudRegion.providerName },
+        id: { value: cloudRegion.id },
+        location: { value: cloudRegion.location },
+        zone: { value: String(cloudRegion.zone) },
+        pueSource: {
+          value:
+            explicitPue === undefined
+              ? cloudRegion.pueSource
+              : "efficiency.pue",
+        },
+      },
+    });
+  }
+
+  return {
+    effectivePowerW,
+    powerBreakdown: {
+      deviceCount,
+      perDevicePowerW,
+      utilization,
+      devicePowerW,
+      cpuPowerW,
+      networkPowerW,
+      nodeIdlePowerW,
+      basePowerW,
+      overheadFactor,
+      pue,
+    },
+    trace,
+  };
+}
+
+function applyEfficiencyToTime(
+  processingTimeSeconds: number,
+  efficiency?: EfficiencyOptions,
+): number {
+  if (!efficiency?.efficiencyFactor) return processingTimeSeconds;
+  requirePositive("efficiency.efficiencyFactor", efficiency.efficiencyFactor);
+  return processingTimeSeconds / efficiency.efficiencyFactor;
+}
+
+const SECONDS_PER_YEAR = 365.25 * 24 * 3600;
+
+function requireNonNegative(name: string, value: number): void {
+  if (!Number.isFinite(value) || value < 0) {
+    throw invalid(
+      name,
+      "invalid_range",
+      `${name} must be zero or a positive number.`,
+    );
+  }
+}
+
+/**
+ * Market-based emission factor (gCO2/kWh): instrument factors for the
+ * covered share, supplier → residual mix → location-based for the rest.
+ */
+function resolveMarketBasedIntensity(
+  locationIntensity: number,
+  options?: MarketBasedOptions,
+): { value: number; coverage: number; uncoveredFactor: number } {
+  if (!options) {
+    return {
+      value: locationIntensity,
+      coverage: 0,
+      uncoveredFactor: locationIntensity,
+    };
+  }
+
+  let coverage = 0;
+  let coveredEmissions = 0;
+  options.instruments?.forEach((instrument, i) => {
+    const path = `marketBased.instruments[${i}]`;
+    requireFraction(`${path}.coverage`, instrument.coverage);
+    const factor = instrument.emissionFactorGPerKwh ?? 0;
+    requireNonNegative(`${path}.emissionFactorGPerKwh`, factor);
+    coverage += instrument.coverage;
+    coveredEmissions += instrument.coverage * factor;
+  });
+  // Tolerate float noise from fractions such as 0.7 + 0.2 + 0.1.
+  if (coverage > 1 + 1e-9) {
+    throw invalid(
+      "marketBased.instruments",
+      "invalid_range",
+      "marketBased.instruments coverage must not exceed 1 in total.",
+    );
+  }
+  coverage = Math.min(coverage, 1);
+
+  for (const key of ["supplierFactorGPerKwh", "residualMixGPerKwh"] as const) {
+    const value = options[key];
+    if (value !== undefined) requireNonNegative(`marketBased.${key}`, value);
+  }
+  const uncoveredFactor =
+    options.supplierFactorGPerKwh ??
+    options.residualMixGPerKwh ??
+    locationIntensity;
+
+  return {
+    value: coveredEmissions + (1 - coverage) * uncoveredFactor,
+    coverage,
+    uncoveredFactor,
+  };
+}
+
+function computeEmbodiedCo2Grams(
+  processingTimeSeconds: number,
+  embodied?: EmbodiedCarbonOptions,
+): number {
+  if (!embodied) return 0;
+  requirePositive("embodied.hardwareCo2Kg", embodied.hardwareCo2Kg);
+  requirePositive("embodied.lifetimeYears", embodied.lifetimeYears);
+  const utilization = embodied.utilization ?? 1;
+  requirePositive("embodied.utilization", utilization);
+  requireFraction("embodied.utilization", utilization);
+
+  const busySeconds = embodied.lifetimeYears * SECONDS_PER_YEAR * utilization;
+  return (embodied.hardwareCo2Kg * 1000 * processingTimeSeconds) / busySeconds;
+}
+
+const EMBODIED_WITHOUT_TIME =
+  "embodied is amortized over processing time, which is unknown here (per-token energy without token rates, or measured energy without a time); embodiedCo2Grams is 0. Set processingTimeSeconds or throughput rates.";
+
+function applyBatchSize(
+  energyKwh: number,
+  efficiency?: EfficiencyOptions,
+): number {
+  if (!efficiency?.batchSize) return energyKwh;
+  requirePositive("efficiency.batchSize", efficiency.batchSize);
+  return energyKwh / efficiency.batchSize;
+}
+
+/**
+ * Checks inputs without throwing and reports every issue found, using the
+ * rules `estimateImpact` applies. In strict mode unknown regions, clamped
+ * PUE/overhead and ignored values are errors instead of warnings.
+ */
+export function validateImpactInputs(
+  input: ImpactInputs,
+  options: EstimateOptions = {},
+): ValidationResult {
+  const issues: ValidationIssue[] = [];
+  const softSeverity: ValidationSeverity = options.strict ? "error" : "warning";
+  const soft = (
+    path: string,
+    code: ValidationIssueCode,
+    message: string,
+  ): void => {
+    issues.push({ path, code, severity: softSeverity, message });
+  };
+  const attempt = <T>(check: () => T): T | undefined => {
+    try {
+      return check();
+    } catch (error) {
+      if (!(error instanceof ImpactValidationError)) throw error;
+      issues.push(...error.issues);
+      return undefined;
+    }
+  };
+
+  const dataset = attempt(() => getGridIntensityDataset(input.gridDataset));
+
+  const hardware = attempt(() => resolveHardwareProfile(input.hardware));
+  if (
+    (!input.hardware || hardware) &&
+    (input.gpuPowerW !== undefined || hardware || usesDevicePower(input))
+  ) {
+    attempt(() =>
+      resolvePerDevicePowerW(input.gpuPowerW, hardware, input.powerModel),
+    );
+  }
+  for (const key of findIgnoredPowerModelKeys(
+    input.gpuPowerW,
+    input.powerModel,
+  )) {
+    soft(`powerModel.${key}`, "ignored", describeIgnoredPowerModelKey(key));
+  }
+  const deviceCount = input.powerModel?.deviceCount;
+  if (deviceCount !== undefined) {
+    attempt(() => {
+      requirePositive("powerModel.deviceCount", deviceCount);
+      requireInteger("powerModel.deviceCount", deviceCount);
+    });
+  }
+  const nodeIdlePowerW = input.powerModel?.nodeIdlePowerW;
+  if (nodeIdlePowerW) {
+    attempt(() => {
+      requirePositive("powerModel.nodeIdlePowerW", nodeIdlePowerW);
+      requireFraction(
+        "powerModel.nodeIdleShare",
+        input.powerModel?.nodeIdleShare ?? 1,
+      );
+    });
+  }
+  const { cpuPowerW, networkPowerW } = input;
+  if (cpuPowerW) attempt(() => requirePositive("cpuPowerW", cpuPowerW));
+  if (networkPowerW) {
+    attempt(() => requirePositive("networkPowerW", networkPowerW));
+  }
+
+  const overheadFactor = input.efficiency?.overheadFactor;
+  const overheadClamp =
+    overheadFactor === undefined
+      ? undefined
+      : describeClamp(
+          "efficiency.overheadFactor",
+          overheadFactor,
+          OVERHEAD_BOUNDS,
+        );
+  if (overheadClamp)
+    soft("efficiency.overheadFactor", "clamped", overheadClamp);
+  const pue = input.efficiency?.pue;
+  const pueClamp =
+    pue === undefined
+      ? undefined
+      : describeClamp("efficiency.pue", pue, PUE_BOUNDS);
+  if (pueClamp) soft("efficiency.pue", "clamped", pueClamp);
+  attempt(() => applyEfficiencyToTime(1, input.efficiency));
+  attempt(() => applyBatchSize(1, input.efficiency));
+
+  const energyOverride = resolveEnergyKwh(input.energy);
+  if (
+    energyOverride === null &&
+    (input.energy?.energyKwh !== undefined ||
+      input.energy?.energyJoules !== undefined)
+  ) {
+    soft(
+      "energy",
+      "ignored",
+      "energy.energyKwh or energy.energyJoules must be positive; the energy override is ignored.",
+    );
+  }
+
+  const { processingTimeSeconds, usage } = input;
+  let timeUnknown = false;
+  if (typeof processingTimeSeconds === "number") {
+    attempt(() =>
+      requirePositive("processingTimeSeconds", processingTimeSeconds),
+    );
+  } else if (energyOverride !== null) {
+    const usageTime = usage?.processingTimeSeconds;
+    if (usageTime) {
+      attempt(() => requirePositive("processingTimeSeconds", usageTime));
+    } else {
+      timeUnknown = true;
+    }
+  } else if (usage) {
+    const ignoredKey = findIgnoredTokenEnergyKey(usage, input.throughput);
+    if (ignoredKey) {
+      soft(
+        `throughput.${ignoredKey}`,
+        "ignored",
+        describeIgnoredTokenEnergy(usage, ignoredKey),
+      );
+    }
+    attempt(() => {
+      const tokenEnergyJoules = resolveTokenEnergyJoules(
+        usage,
+        input.throughput,
+      );
+      if (
+        tokenEnergyJoules === null ||
+        hasTokenRates(usage, input.throughput)
+      ) {
+        deriveProcessingTimeSeconds(usage, input.throughput);
+      } else {
+        timeUnknown = true;
+      }
+    });
+  } else {
+    issues.push({
+      path: "processingTimeSeconds",
+      code: "required",
+      severity: "error",
+      message:
+        "Either processingTimeSeconds, usage, or energy must be provided.",
+    });
+  }
+
+  attempt(() => computeEmbodiedCo2Grams(1, input.embodied));
+  if (input.embodied && timeUnknown) {
+    soft("embodied", "ignored", EMBODIED_WITHOUT_TIME);
+  }
+  attempt(() => resolveMarketBasedIntensity(1, input.marketBased));
+
+  const gridIntensity = input.gridCarbonIntensityGPerKwh;
+  if (gridIntensity !== undefined && !(gridIntensity > 0)) {
+    soft(
+      "gridCarbonIntensityGPerKwh",
+      "ignored",
+      "gridCarbonIntensityGPerKwh must be positive; the region value is used instead.",
+    );
+  }
+  if (
+    input.region &&
+    !normalizeRegion(
+      input.region,
+      dataset?.values ?? DEFAULT_GRID_CARBON_G_PER_KWH,
+    )
+  ) {
+    soft(
+      "region",
+      "unknown_region",
+      options.strict
+        ? `Unknown region "${input.region}".`
+        : `Unknown region "${input.region}", falling back to global carbon intensity.`,
+    );
+  }
+  for (const key of findIgnoredWaterKeys(input.water)) {
+    soft(`water.${key}`, "ignored", describeIgnoredWaterKey(key));
+  }
+
+  return {
+    valid: !issues.some((issue) => issue.severity === "error"),
+    issues,
+  };
+}
+
+function assertStrictInputs(input: ImpactInputs): void {
+  const { valid, issues } = validateImpactInputs(input, { strict: true });
+  if (!valid) throw new ImpactValidationError(issues);
+}
+
+const TRACE_UNITS: Record<string, string> = {
+  inputTokens: "tokens",
+  outputTokens: "tokens",
+  audioSeconds: "s",
+  width: "px",
+  height: "px",
+  images: "images",
+  processingTimeSeconds: "s",
+  tokensPerSecond: "tokens/s",
+  inputTokensPerSecond: "tokens/s",
+  outputTokensPerSecond: "tokens/s",
+  timeToFirstTokenSeconds: "s",
+  energyJoulesPerInputToken: "J/token",
+  energyJoulesPerOutputToken: "J/token",
+  cachedInputTokens: "tokens",
+  reasoningTokens: "tokens",
+  imageInputs: "images",
+  audioInputSeconds: "s",
+  toolCalls: "calls",
+  cachedInputTokenWeight: "x",
+  reasoningTokenWeight: "x",
+  imageInputsPerSecond: "images/s",
+  audioInputSecondsPerSecond: "s/s",
+  toolCallOverheadSeconds: "s",
+  energyJoulesPerImageInput: "J/image",
+  energyJoulesPerAudioInputSecond: "J/s",
+  energyJoulesPerToolCall: "J/call",
+  audioSecondsPerSecond: "s/s",
+  pixelsPerSecond: "px/s",
+  editPixelsPerSecond: "px/s",
+  visionPixelsPerSecond: "px/s",
+  videoPixelsPerSecond: "px/s",
+  rerankDocumentsPerSecond: "documents/s",
+  fps: "frames/s",
+  durationSeconds: "s",
+  videos: "videos",
+  documents: "documents",
+  queries: "queries",
+};
+
+function toTraceValues(source: object | undefined): Record<string, TraceValue> {
+  const values: Record<string, TraceValue> = {};
+  for (const [key, value] of Object.entries(source ?? {})) {
+    if (typeof value === "number" || typeof value === "string") {
+      values[key] = { value, unit: TRACE_UNITS[key] };
+    }
+  }
+  return values;
+}
+
+function traceValue(values: Record<string, TraceValue>, key: string): number {
+  return Number(values[key]?.value ?? 0);
+}
+
+function traceText(values: Record<string, TraceValue>, key: string): string {
+  return String(values[key]?.value ?? "");
+}
+
+/**
+ * Renders the human-readable `notes` from a calculation trace. Steps without
+ * a note (time derivation, energy, emissions) render nothing.
+ */
+export function renderCalculationNotes(trace: CalculationStep[]): string[] {
+  return trace.flatMap(({ kind, inputs, outputs }): string[] => {
+    switch (kind) {
+      case "hardware":
+        return [
+          `Hardware profile: ${traceText(outputs, "name")} (${traceText(outputs, "id")})`,
+          `Hardware source: ${traceText(outputs, "source")}`,
+        ];
+      case "power": {
+        const notes: string[] = [];
+        if (inputs.utilization) {
+          notes.push(
+            `Utilization: ${(traceValue(inputs, "utilization") * 100).toFixed(0)}%`,
+          );
+        }
+        const deviceCount = traceValue(inputs, "deviceCount");
+        if (deviceCount > 1) {
+          notes.push(
+            `Devices: ${deviceCount} x ${traceValue(inputs, "perDevicePowerW").toFixed(2)}W = ${traceValue(outputs, "devicePowerW").toFixed(2)}W`,
+          );
+        }
+        const nodeIdlePowerW = traceValue(inputs, "nodeIdlePowerW");
+        if (nodeIdlePowerW) {
+          notes.push(
+            `Attributed node idle power: ${nodeIdlePowerW.toFixed(2)}W`,
+          );
+        }
+        notes.push(
+          `Base power: ${traceValue(outputs, "basePowerW").toFixed(2)}W`,
+        );
+        return notes;
+      }
+      case "overhead":
+        return [
+          `Overhead factor: ${traceValue(outputs, "overheadFactor").toFixed(2)}`,
+        ];
+      case "pue":
+        return [`PUE: ${traceValue(outputs, "pue").toFixed(2)}`];
+      case "cloud_region":
+        return [
+          `Cloud region: ${traceText(outputs, "providerName")} ${traceText(outputs, "id")} (${traceText(outputs, "location")}), grid zone "${traceText(outputs, "zone")}"`,
+          `PUE source: ${traceText(outputs, "pueSource")}`,
+        ];
+      case "energy_override": {
+        const timeSource = traceText(outputs, "processingTimeSource");
+        return [
+          "Energy override provided.",
+          timeSource === "input"
+            ? "Processing time provided alongside energy."
+            : timeSource === "usage"
+              ? "Processing time provided in usage alongside energy."
+              : "Processing time not provided with energy.",
+        ];
+      }
+      case "token_energy":
+        return [
+          `Per-token energy: ${traceValue(inputs, "energyJoulesPerInputToken")} J/input token, ${traceValue(inputs, "energyJoulesPerOutputToken")} J/output token (${traceValue(outputs, "deviceEnergyJoules").toFixed(2)} J before overhead and PUE)`,
+        ];
+      case "grid_intensity":
+        return [
+          `Grid intensity: ${traceValue(outputs, "gridCarbonIntensityGPerKwh")} gCO2/kWh`,
+        ];
+      case "grid_dataset":
+        return [
+          `Grid dataset: ${traceText(outputs, "id")} (${traceValue(outputs, "year")}, ${traceText(outputs, "source")})`,
+        ];
+      case "grid_zone":
+        return [
+          `Grid zone: ${traceText(outputs, "name")} (${traceText(outputs, "id")}), ${traceText(outputs, "source")}`,
+        ];
+      case "grid_source":
+        return [`Grid intensity source: ${traceText(outputs, "source")}`];
+      case "market_based":
+        return [
+          `Market-based intensity: ${Number(traceValue(outputs, "marketBasedGPerKwh").toFixed(2))} gCO2/kWh (${Number((traceValue(inputs, "coverage") * 100).toFixed(1))}% contractual coverage, ${traceText(inputs, "uncoveredFactorSource")} factor ${traceValue(inputs, "uncoveredFactorGPerKwh")} gCO2/kWh for the rest)`,
+        ];
+      case "water":
+        return [
+          `Water intensity: ${traceValue(inputs, "onsiteWueLitersPerKwh")} L/kWh on-site, ${traceValue(inputs, "offsiteLitersPerKwh")} L/kWh off-site`,
+        ];
+      case "embodied":
+        return [
+          traceValue(inputs, "processingTimeSeconds") > 0
+            ? `Embodied carbon: ${traceValue(outputs, "embodiedCo2Grams").toFixed(4)}g (${traceValue(inputs, "hardwareCo2Kg")}kg over ${traceValue(inputs, "lifetimeYears")}y)`
+            : "Embodied carbon not amortized: processing time unknown.",
+        ];
+      case "precision":
+        return [`Precision: ${traceText(inputs, "precision")}`];
+      case "quantization":
+        return [`Quantization: ${traceText(inputs, "quantization")}`];
+      default:
+        return [];
+    }
+  });
+}
+
+export function estimateImpact(
+  input: ImpactInputs,
+  options: EstimateOptions = {},
+): ImpactResult {
+  return estimateImpactWith(input, options, emitWarning);
+}
+
+/**
+ * `estimateImpact` with warnings sent to `warn`, so callers that repeat
+ * estimates can count or deduplicate them without touching the global sink.
+ */
+function estimateImpactWith(
+  input: ImpactInputs,
+  options: EstimateOptions,
+  warn: WarningEmitter,
+): ImpactResult {
+  if (options.strict) assertStrictInputs(input);
+
+  const dataset = getGridIntensityDataset(input.gridDataset);
+  const gridIntensity = resolveGridIntensity(
+    {
+      region: input.region,
+      gridCarbonIntensityGPerKwh: input.gridCarbonIntensityGPerKwh,
+      gridIntensityResolver: input.gridIntensityResolver,
+      timestamp: input.timestamp,
+      dataset,
+    },
+    warn,
+  );
+
+  const energyOverride = resolveEnergyKwh(input.energy);
+  const {
+    effectivePowerW,
+    powerBreakdown,
+    trace: powerTrace,
+  } = computeEffectivePowerW(input, warn, usesDevicePower(input));
+  const trace: CalculationStep[] = [...powerTrace];
+
+  let processingTimeSeconds = 0;
+  let energyKwh = 0;
+  let usageBreakdown: UsageBreakdown | undefined;
+
+  if (energyOverride !== null) {
+    energyKwh = energyOverride;
+    let processingTimeSource = "none";
+    if (typeof input.processingTimeSeconds === "number") {
+      processingTimeSeconds = input.processingTimeSeconds;
+      requirePositive("processingTimeSeconds", processingTimeSeconds);
+      processingTimeSource = "input";
+    } else if (input.usage?.processingTimeSeconds) {
+      processingTimeSeconds = input.usage.processingTimeSeconds;
+      requirePositive("processingTimeSeconds", processingTimeSeconds);
+      processingTimeSource = "usage";
+    }
+    trace.push({
+      kind: "energy_override",
+      inputs: toTraceValues(input.energy),
+      outputs: {
+        energyKwh: { value: energyKwh, unit: "kWh" },
+        processingTimeSeconds: { value: processingTimeSeconds, unit: "s" },
+        processingTimeSource: { value: processingTimeSource },
+      },
+    });
+  } else {
+    const tokenEnergyJoules = input.usage
+      ? resolveTokenEnergyJoules(input.usage, input.throughput)
+      : null;
+    const ignoredKey =
+      input.usage && findIgnoredTokenEnergyKey(input.usage, input.throughput);
+    if (input.usage && ignoredKey) {
+      warn(
+        `throughput.${ignoredKey}`,
+        "ignored",
+        describeIgnoredTokenEnergy(input.usage, ignoredKey),
+      );
+    }
+    let timeFromThroughput = false;
+
+    if (typeof input.processingTimeSeconds === "number") {
+      processingTimeSeconds = input.processingTimeSeconds;
+      requirePositive("processingTimeSeconds", processingTimeSeconds);
+      trace.push({
+        kind: "processing_time",
+        inputs: {
+          processingTimeSeconds: { value: processingTimeSeconds, unit: "s" },
+        },
+        outputs: {
+          processingTimeSeconds: { value: processingTimeSeconds, unit: "s" },
+        },
+      });
+    } else if (
+      input.usage &&
+      tokenEnergyJoules !== null &&
+      !hasTokenRates(input.usage, input.throughput)
+    ) {
+      // Per-token energy without rates: energy is known, time is not.
+      processingTimeSeconds = 0;
+    } else if (input.usage) {
+      processingTimeSeconds = deriveProcessingTimeSeconds(
+        input.usage,
+        input.throughput,
+      );
+      timeFromThroughput = input.usage.processingTimeSeconds === undefined;
+      trace.push({
+        kind: "processing_time",
+        inputs: {
+          ...toTraceValues(input.usage),
+          ...toTraceValues(input.throughput),
+        },
+        outputs: {
+          processingTimeSeconds: { value: processingTimeSeconds, unit: "s" },
+        },
+      });
+    } else {
+      throw invalid(
+        "processingTimeSeconds",
+        "required",
+        "Either processingTimeSeconds, usage, or energy must be provided.",
+      );
+    }
+
+    const derivedSeconds = processingTimeSeconds;
+    processingTimeSeconds = applyEfficiencyToTime(
+      processingTimeSeconds,
+      input.efficiency,
+    );
+    if (input.efficiency?.efficiencyFactor) {
+      trace.push({
+        kind: "efficiency",
+        inputs: {
+          processingTimeSeconds: { value: derivedSeconds, unit: "s" },
+          efficiencyFactor: {
+            value: input.efficiency.efficiencyFactor,
+            unit: "x",
+          },
+        },
+        outputs: {
+          processingTimeSeconds: { value: processingTimeSeconds, unit: "s" },
+        },
+      });
+    }
+
+    if (input.usage && isTokenUsage(input.usage)) {
+      usageBreakdown = describeTokenUsage(input.usage, input.throughput, {
+        seconds: timeFromThroughput,
+        energy: tokenEnergyJoules !== null,
+      });
+    }
+
+    if (tokenEnergyJoules !== null) {
+      energyKwh =
+        toKwhFromJoules(tokenEnergyJoules) *
+        powerBreakdown.overheadFactor *
+        powerBreakdown.pue;
+      trace.push({
+        kind: "token_energy",
+        inputs: {
+          ...toTraceValues(input.usage),
+          ...toTraceValues(input.throughput),
+          overheadFactor: { value: powerBreakdown.overheadFactor, unit: "x" },
+          pue: { value: powerBreakdown.pue, unit: "x" },
+        },
+        outputs: {
+          deviceEnergyJoules: { value: tokenEnergyJoules, unit: "J" },
+          energyKwh: { value: energyKwh, unit: "kWh" },
+        },
+      });
+    } else {
+      energyKwh = (effectivePowerW * processingTimeSeconds) / 3600 / 1000;
+      trace.push({
+        kind: "energy",
+        inputs: {
+          effectivePowerW: { value: effectivePowerW, unit: "W" },
+          processingTimeSeconds: { value: processingTimeSeconds, unit: "s" },
+        },
+        outputs: { energyKwh: { value: energyKwh, unit: "kWh" } },
+      });
+    }
+  }
+
+  const unbatchedEnergyKwh = energyKwh;
+  energyKwh = applyBatchSize(energyKwh, input.efficiency);
+  if (input.efficiency?.batchSize) {
+    trace.push({
+      kind: "batch",
+      inputs: {
+        energyKwh: { value: unbatchedEnergyKwh, unit: "kWh" },
+        batchSize: { value: input.efficiency.batchSize, unit: "requests" },
+      },
+      outputs: { energyKwh: { value: energyKwh, unit: "kWh" } },
+    });
+  }
+
+  trace.push({
+    kind: "grid_intensity",
+    inputs: {
+      source: { value: gridIntensity.source },
+      ...(input.region ? { region: { value: String(input.region) } } : {}),
+    },
+    outputs: {
+      gridCarbonIntensityGPerKwh: {
+        value: gridIntensity.value,
+        unit: "gCO2/kWh",
+      },
+    },
+  });
+  // Explicit and resolver values do not come from the dataset.
+  const fromDataset =
+    gridIntensity.source === "region" || gridIntensity.source === "global";
+  if (fromDataset) {
+    trace.push({
+      kind: "grid_dataset",
+      inputs: {},
+      outputs: {
+        id: { value: dataset.metadata.id },
+        year: { value: dataset.metadata.year },
+        source: { value: dataset.metadata.source },
+      },
+    });
+  }
+  const gridZone =
+    gridIntensity.source === "region" && input.region
+      ? getGridZone(input.region)
+      : undefined;
+  if (gridZone) {
+    trace.push({
+      kind: "grid_zone",
+      inputs: { region: { value: String(input.region) } },
+      outputs: {
+        id: { value: gridZone.id },
+        name: { value: gridZone.name },
+        country: { value: gridZone.country },
+        source: { value: gridZone.source },
+      },
+    });
+  }
+
+  const co2Grams = energyKwh * gridIntensity.value;
+  trace.push({
+    kind: "emissions",
+    inputs: {
+      energyKwh: { value: energyKwh, unit: "kWh" },
+      gridCarbonIntensityGPerKwh: {
+        value: gridIntensity.value,
+        unit: "gCO2/kWh",
+      },
+    },
+    outputs: { co2Grams: { value: co2Grams, unit: "g" } },
+  });
+
+  const marketBased = resolveMarketBasedIntensity(
+    gridIntensity.value,
+    input.marketBased,
+  );
+  const co2GramsMarketBased = energyKwh * marketBased.value;
+  if (input.marketBased) {
+    trace.push({
+      kind: "market_based",
+      inputs: {
+        locationBasedGPerKwh: { value: gridIntensity.value, unit: "gCO2/kWh" },
+        coverage: { value: marketBased.coverage, unit: "fraction" },
+        uncoveredFactorGPerKwh: {
+          value: marketBased.uncoveredFactor,
+          unit: "gCO2/kWh",
+        },
+        uncoveredFactorSource: {
+          value:
+            input.marketBased.supplierFactorGPerKwh !== undefined
+              ? "supplier"
+              : input.marketBased.residualMixGPerKwh !== undefined
+                ? "residual mix"
+                : "location-based",
+        },
+      },
+      outputs: {
+        marketBasedGPerKwh: { value: marketBased.value, unit: "gCO2/kWh" },
+        co2GramsMarketBased: { value: co2GramsMarketBased, unit: "g" },
+      },
+    });
+  }
+
+  // On-site WUE applies to IT energy, i.e. before the PUE multiplier.
+  const waterIntensity = resolveWaterIntensity(input, warn);
+  const waterLiters =
+    (energyKwh / powerBreakdown.pue) * waterIntensity.onsiteWueLitersPerKwh +
+    energyKwh * waterIntensity.offsiteLitersPerKwh;
+  trace.push({
+    kind: "water",
+    inputs: {
+      energyKwh: { value: energyKwh, unit: "kWh" },
+      pue: { value: powerBreakdown.pue, unit: "x" },
+      onsiteWueLitersPerKwh: {
+        value: waterIntensity.onsiteWueLitersPerKwh,
+        unit: "L/kWh",
+      },
+      offsiteLitersPerKwh: {
+        value: waterIntensity.offsiteLitersPerKwh,
+        unit: "L/kWh",
+      },
+    },
+    outputs: { waterLiters: { value: waterLiters, unit: "L" } },
+  });
+
+  // processingTimeSeconds is the batch's wall time, so embodied is split
+  // across the batch once here, like energy above.
+  const embodiedCo2Grams = applyBatchSize(
+    computeEmbodiedCo2Grams(processingTimeSeconds, input.embodied),
+    input.efficiency,
+  );
+  if (input.embodied && processingTimeSeconds === 0) {
+    warn("embodied", "ignored", EMBODIED_WITHOUT_TIME);
+  }
+  if (input.embodied) {
+    trace.push({
+      kind: "embodied",
+      inputs: {
+        hardwareCo2Kg: { value: input.embodied.hardwareCo2Kg, unit: "kg" },
+        lifetimeYears: { value: input.embodied.lifetimeYears, unit: "y" },
+        utilization: {
+          value: input.embodied.utilization ?? 1,
+          unit: "fraction",
+        },
+        processingTimeSeconds: { value: processingTimeSeconds, unit: "s" },
+      },
+      outputs: { embodiedCo2Grams: { value: embodiedCo2Grams, unit: "g" } },
+    });
+  }
+
+  if (input.efficiency?.precision) {
+    trace.push({
+      kind: "precision",
+      inputs: { precision: { value: input.efficiency.precision } },
+      outputs: {},
+    });
+  }
+  if (input.efficiency?.quantization) {
+    trace.push({
+      kind: "quantization",
+      inputs: { quantization: { value: input.efficiency.quantization } },
+      outputs: {},
+    });
+  }
+
+  return {
+    category: input.usage?.category,
+    energyKwh,
+    co2Grams,
+    co2GramsLocationBased: co2Grams,
+    co2GramsMarketBased,
+    gridCarbonIntensityGPerKwh: gridIntensity.value,
+    ...(fromDataset
+      ? {
+          gridDatasetId: dataset.metadata.id,
+          gridDatasetYear: dataset.metadata.year,
+        }
+      : {}),
+    effectivePowerW,
+    powerBreakdown,
+    processingTimeSeconds,
+    embodiedCo2Grams,
+    totalCo2Grams: co2Grams + embodiedCo2Grams,
+    waterLiters,
+    waterIntensity,
+    ...(usageBreakdown ? { usageBreakdown } : {}),
+    notes: renderCalculationNotes(trace),
+    ...(options.explain ? { trace } : {}),
+  };
+}
+
+/**
+ * Minimal mode helper: a lightweight entry-point for coarse estimates.
+ */
+export function estimateImpactMinimal(
+  input: MinimalImpactInputs,
+  options: EstimateOptions = {},
+): ImpactResult {
+  return estimateImpact(
+    {
+      gpuPowerW: input.gpuPowerW,
+      hardware: input.hardware,
+      processingTimeSeconds: input.processingTimeSeconds,
+      region: input.region,
+      gridCarbonIntensityGPerKwh: input.gridCarbonIntensityGPerKwh,
+      gridDataset: input.gridDataset,
+      efficiency: input.efficiency,
+      energy: input.energy,
+      marketBased: input.marketBased,
+      timestamp: input.timestamp,
+      gridIntensityResolver: input.gridIntensityResolver,
+    },
+    options,
+  );
+}
+
+function validateRange(name: string, range?: NumericRange): void {
+  if (!range) return;
+  requirePositive(`${name}.min`, range.min);
+  requirePositive(`${name}.max`, range.max);
+  if (range.max < range.min) {
+    throw invalid(
+      `${name}.max`,
+      "invalid_range",
+      `${name}.max must be >= ${name}.min.`,
+    );
+  }
+}
+
+type UncertainParameterValues = Partial<Record<UncertainParameter, number>>;
+
+function buildInputWithValues(
+  input: ImpactInputs,
+  values: UncertainParameterValues,
+): ImpactInputs {
+  const needsThroughput =
+    values.tokensPerSecond !== undefined ||
+    values.inputTokensPerSecond !== undefined ||
+    values.outputTokensPerSecond !== undefined ||
+    values.timeToFirstTokenSeconds !== undefined ||
+    values.energyJoulesPerInputToken !== undefined ||
+    values.energyJoulesPerOutputToken !== undefined ||
+    values.audioSecondsPerSecond !== undefined ||
+    values.pixelsPerSecond !== undefined ||
+    values.editPixelsPerSecond !== undefined ||
+    values.visionPixelsPerSecond !== undefined ||
+    values.videoPixelsPerSecond !== undefined ||
+    values.rerankDocumentsPerSecond !== undefined;
+  const needsEfficiency =
+    values.pue !== undefined ||
+    values.overheadFactor !== undefined ||
+    values.efficiencyFactor !== undefined;
+  const needsPowerModel = values.utilization !== undefined;
+
+  const throughput = input.throughput || (needsThroughput ? {} : undefined);
+  const efficiency = input.efficiency || (needsEfficiency ? {} : undefined);
+  const powerModel = input.powerModel || (needsPowerModel ? {} : undefined);
+
+  return {
+    ...input,
+    gpuPowerW: values.gpuPowerW ?? input.gpuPowerW,
+    gridCarbonIntensityGPerKwh:
+      values.gridCarbonIntensityGPerKwh ?? input.gridCarbonIntensityGPerKwh,
+    powerModel: powerModel
+      ? {
+          ...powerModel,
+          utilization: values.utilization ?? powerModel.utilization,
+        }
+      : undefined,
+    throughput: throughput
+      ? {
+          ...throughput,
+          tokensPerSecond: values.tokensPerSecond ?? throughput.tokensPerSecond,
+          inputTokensPerSecond:
+            values.inputTokensPerSecond ?? throughput.inputTokensPerSecond,
+          outputTokensPerSecond:
+            values.outputTokensPerSecond ?? throughput.outputTokensPerSecond,
+          timeToFirstTokenSeconds:
+            values.timeToFirstTokenSeconds ??
+            throughput.timeToFirstTokenSeconds,
+          energyJoulesPerInputToken:
+            values.energyJoulesPerInputToken ??
+            throughput.energyJoulesPerInputToken,
+          energyJoulesPerOutputToken:
+            values.energyJoulesPerOutputToken ??
+            throughput.energyJoulesPerOutputToken,
+          audioSecondsPerSecond:
+            values.audioSecondsPerSecond ?? throughput.audioSecondsPerSecond,
+          pixelsPerSecond: values.pixelsPerSecond ?? throughput.pixelsPerSecond,
+          editPixelsPerSecond:
+            values.editPixelsPerSecond ?? throughput.editPixelsPerSecond,
+          visionPixelsPerSecond:
+            values.visionPixelsPerSecond ?? throughput.visionPixelsPerSecond,
+          videoPixelsPerSecond:
+            values.videoPixelsPerSecond ?? throughput.videoPixelsPerSecond,
+          rerankDocumentsPerSecond:
+            values.rerankDocumentsPerSecond ??
+            throughput.rerankDocumentsPerSecond,
+        }
+      : undefined,
+    efficiency: efficiency
+      ? {
+          ...efficiency,
+          pue: values.pue ?? efficiency.pue,
+          overheadFactor: values.overheadFactor ?? efficiency.overheadFactor,
+          efficiencyFactor:
+            values.efficiencyFactor ?? efficiency.efficiencyFactor,
+        }
+      : undefined,
+  };
+}
+
+function buildInputWithRanges(
+  input: ImpactInputs,
+  ranges: UncertaintyRanges,
+  pick: "min" | "max",
+): ImpactInputs {
+  const values: UncertainParameterValues = {};
+  for (const key of Object.keys(ranges) as UncertainParameter[]) {
+    const range = ranges[key];
+    if (range) values[key] = range[pick];
+  }
+  return buildInputWithValues(input, values);
+}
+
+function addImpact(
+  aggregate: AggregateImpactResult,
+  result: ImpactResult,
+): AggregateImpactResult {
+  return {
+    count: aggregate.count + 1,
+    energyKwh: aggregate.energyKwh + result.energyKwh,
+    co2Grams: aggregate.co2Grams + result.co2Grams,
+    co2GramsLocationBased:
+      aggregate.co2GramsLocationBased + result.co2GramsLocationBased,
+    co2GramsMarketBased:
+      aggregate.co2GramsMarketBased + result.co2GramsMarketBased,
+    embodiedCo2Grams: aggregate.embodiedCo2Grams + result.embodiedCo2Grams,
+    totalCo2Grams: aggregate.totalCo2Grams + result.totalCo2Grams,
+    waterLiters: aggregate.waterLiters + result.waterLiters,
+    gridDatasetIds:
+      result.gridDatasetId === undefined ||
+      aggregate.gridDatasetIds.includes(result.gridDatasetId)
+        ? aggregate.gridDatasetIds
+        : [...aggregate.gridDatasetIds, result.gridDatasetId].sort(),
+  };
+}
+
+function copyAggregate(
+  aggregate: AggregateImpactResult,
+): AggregateImpactResult {
+  return { ...aggregate, gridDatasetIds: [...aggregate.gridDatasetIds] };
+}
+
+function copyAggregates(
+  aggregates: Record<string, AggregateImpactResult> = {},
+): Record<string, AggregateImpactResult> {
+  return Object.fromEntries(
+    Object.entries(aggregates).map(([key, value]) => [
+      key,
+      copyAggregate(value),
+    ]),
+  );
+}
+
+export function aggregateImpacts(
+  results: ImpactResult[],
+): AggregateImpactResult {
+  return results.reduce(addImpact, {
+    count: 0,
+    energyKwh: 0,
+    co2Grams: 0,
+    co2GramsLocationBased: 0,
+    co2GramsMarketBased: 0,
+    embodiedCo2Grams: 0,
+    totalCo2Grams: 0,
+    waterLiters: 0,
+    gridDatasetIds: [],
+  });
+}
+
+interface IntervalDeviation {
+  lower: number;
+  upper: number;
+}
+
+function toIntervalDeviations(
+  result: ImpactRangeResult | ImpactDistributionResult,
+): { energyKwh: IntervalDeviation; co2Grams: IntervalDeviation } {
+  const { base } = result;
+  // Distributions contribute their p5-p95 interval.
+  const [energyMin, energyMax, co2Min, co2Max] =
+    "samples" in result
+      ? [
+          result.energyKwh.p5,
+          result.energyKwh.p95,
+          result.co2Grams.p5,
+          result.co2Grams.p95,
+        ]
+      : [
+          result.energyKwhMin,
+          result.energyKwhMax,
+          result.co2GramsMin,
+          result.co2GramsMax,
+        ];
+  return {
+    energyKwh: {
+      lower: Math.max(0, base.energyKwh - energyMin),
+      upper: Math.max(0, energyMax - base.energyKwh),
+    },
+    co2Grams: {
+      lower: Math.max(0, base.co2Grams - co2Min),
+      upper: Math.max(0, co2Max - base.co2Grams),
+    },
+  };
+}
+
+function combineDeviations(
+  deviations: IntervalDeviation[],
+  interval: IntervalCombination,
+): IntervalDeviation {
+  if (interval === "worst_case") {
+    return deviations.reduce(
+      (acc, deviation) => ({
+        lower: acc.lower + deviation.lower,
+        upper: acc.upper + deviation.upper,
+      }),
+      { lower: 0, upper: 0 },
+    );
+  }
+  const squared = deviations.reduce(
+    (acc, deviation) => ({
+      lower: acc.lower + deviation.lower ** 2,
+      upper: acc.upper + deviation.upper ** 2,
+    }),
+    { lower: 0, upper: 0 },
+  );
+  return { lower: Math.sqrt(squared.lower), upper: Math.sqrt(squared.upper) };
+}
+
+/**
+ * Sums ranged or sampled results while keeping their uncertainty. Bounds
+ * are summed for "worst_case"; for "independent" requests the deviations
+ * from the base are combined as root-sum-square, which gives a narrower
+ * interval at the same confidence as the inputs. Corner bounds and p5-p95
+ * intervals have different coverage, so each kind is combined on its own
+ * and the two are added linearly.
+ */
+export function aggregateImpactRanges(
+  results: Array<ImpactRangeResult | ImpactDistributionResult>,
+  options: RangeAggregationOptions = {},
+): AggregateImpactRangeResult {
+  const interval = options.interval ?? "worst_case";
+  if (interval !== "worst_case" && interval !== "independent") {
+    throw invalid(
+      "interval",
+      "invalid_value",
+      `Unknown interval combination "${String(interval)}".`,
+    );
+  }
+
+  const base = aggregateImpacts(results.map((result) => result.base));
+  const ranged = results.filter((result) => !("samples" in result));
+  const sampled = results.filter((result) => "samples" in result);
+  const combine = (metric: "energyKwh" | "co2Grams"): IntervalDeviation => {
+    const corners = combineDeviations(
+      ranged.map((result) => toIntervalDeviations(result)[metric]),
+      interval,
+    );
+    const percentiles = combineDeviations(
+      sampled.map((result) => toIntervalDeviations(result)[metric]),
+      interval,
+    );
+    return {
+      lower: corners.lower + percentiles.lower,
+      upper: corners.upper + percentiles.upper,
+    };
+  };
+  const energy = combine("energyKwh");
+  const co2 = combine("co2Grams");
+
+  const notes: string[] = [];
+  if (ranged.length > 0 && sampled.length > 0) {
+    notes.push(
+      `Corner bounds of ${ranged.length} ranged results and p5-p95 intervals of ${sampled.length} sampled results were added linearly; the combined interval has no single coverage level.`,
+    );
+  }
+
+  return {
+    base,
+    interval,
+    energyKwhMin: Math.max(0, base.energyKwh - energy.lower),
+    energyKwhMax: base.energyKwh + energy.upper,
+    co2GramsMin: Math.max(0, base.co2Grams - co2.lower),
+    co2GramsMax: base.co2Grams + co2.upper,
+    notes,
+  };
+}
+
+const UNKNOWN_GROUP = "unknown";
+
+function countTokens(usage: Usage | undefined): number {
+  if (!usage) return 0;
+  return (
+    ("inputTokens" in usage ? (usage.inputTokens ?? 0) : 0) +
+    ("outputTokens" in usage ? usage.outputTokens : 0)
+  );
+}
+
+function formatTimeBucket(
+  timestamp: Date | number | undefined,
+  bucket: AggregationTimeBucket,
+  timeZone: string,
+): string {
+  if (timestamp === undefined) return UNKNOWN_GROUP;
+  const epochMs = timestamp instanceof Date ? timestamp.getTime() : timestamp;
+  if (!Number.isFinite(epochMs)) {
+    throw invalid(
+      "timestamp",
+      "invalid_value",
+      "timestamp must be a valid Date or epoch milliseconds.",
+    );
+  }
+  const parts = getZonedParts(epochMs, timeZone);
+  const pad = (value: number) => String(value).padStart(2, "0");
+  const month = `${parts.year}-${pad(parts.month)}`;
+  if (bucket === "month") return month;
+  const day = `${month}-${pad(parts.day)}`;
+  return bucket === "day" ? day : `${day}T${pad(parts.hour)}`;
+}
+
+function resolveGroupValue(
+  record: AggregationRecord,
+  dimension: AggregationDimension,
+  timeZone: string,
+): string {
+  switch (dimension) {
+    case "category":
+      return record.result.category ?? record.usage?.category ?? UNKNOWN_GROUP;
+    case "region":
+      return record.region
+        ? String(record.region).trim().toLowerCase()
+        : UNKNOWN_GROUP;
+    case "model":
+      return record.model ?? UNKNOWN_GROUP;
+    case "hour":
+    case "day":
+    case "month":
+      return formatTimeBucket(record.timestamp, dimension, timeZone);
+    default:
+      return record.tags?.[dimension.slice("tag:".length)] ?? UNKNOWN_GROUP;
+  }
+}
+
+function computeIntensityMetrics(
+  records: AggregationRecord[],
+): ImpactIntensityMetrics {
+  let tokens = 0;
+  let tokenCo2Grams = 0;
+  let tokenEnergyKwh = 0;
+  let energyKwh = 0;
+  let co2Grams = 0;
+  for (const { result, usage } of records) {
+    const count = countTokens(usage);
+    if (count) {
+      tokens += count;
+      tokenCo2Grams += result.co2Grams;
+      tokenEnergyKwh += result.energyKwh;
+    }
+    energyKwh += result.energyKwh;
+    co2Grams += result.co2Grams;
+  }
+  return {
+    tokens,
+    co2GramsPer1kTokens: tokens ? (tokenCo2Grams / tokens) * 1000 : undefined,
+    energyKwhPer1kTokens: tokens ? (tokenEnergyKwh / tokens) * 1000 : undefined,
+    gridCarbonIntensityGPerKwh: energyKwh ? co2Grams / energyKwh : undefined,
+  };
+}
+
+/**
+ * Groups results by category, region, model, tags and/or time bucket and
+ * reports totals, per-request statistics and intensity metrics per group.
+ */
+export function aggregateImpactsBy(
+  records: AggregationRecord[],
+  options: GroupedAggregationOptions,
+): GroupedAggregateResult {
+  const dimensions = Array.isArray(options.groupBy)
+    ? options.groupBy
+    : [options.groupBy];
+  if (dimensions.length === 0) {
+    throw invalid("groupBy", "required", "groupBy must name a dimension.");
+  }
+  for (const dimension of dimensions) {
+    if (dimension === "tag:") {
+      throw invalid("groupBy", "invalid_value", "tag dimension needs a name.");
+    }
+  }
+  const timeZone = options.timeZone ?? "UTC";
+  getZonedFormatter(timeZone);
+
+  const buckets = new Map<
+    string,
+    { key: Record<string, string>; records: AggregationRecord[] }
+  >();
+  for (const record of records) {
+    const key: Record<string, string> = {};
+    for (const dimension of dimensions) {
+      key[dimension] = resolveGroupValue(record, dimension, timeZone);
+    }
+    const id = dimensions
+      .map((dimension) => `${dimension}=${key[dimension]}`)
+      .join("|");
+    const bucket = buckets.get(id) ?? { key, records: [] };
+    bucket.records.push(record);
+    buckets.set(id, bucket);
+  }
+
+  const groups = [...buckets.entries()]
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([id, { key, records: grouped }]): ImpactGroup => {
+      const results = grouped.map((record) => record.result);
+      return {
+        ...aggregateImpacts(results),
+        key,
+        id,
+        statistics: {
+          energyKwh: summarizeSamples(results.map((r) => r.energyKwh)),
+          co2Grams: summarizeSamples(results.map((r) => r.co2Grams)),
+          totalCo2Grams: summarizeSamples(results.map((r) => r.totalCo2Grams)),
+          waterLiters: summarizeSamples(results.map((r) => r.waterLiters)),
+        },
+        intensity: computeIntensityMetrics(grouped),
+      };
+    });
+
+  return {
+    total: {
+      ...aggregateImpacts(records.map((record) => record.result)),
+      intensity: computeIntensityMetrics(records),
+    },
+    groups,
+  };
+}
+
+const DEFAULT_TRACKER_MAX_ENTRIES = 10_000;
+
+type TrackerListener<E extends TrackerEvent> = (
+  payload: TrackerEventMap[E],
+) => void;
+
+/**
+ * Records impact results with labels and keeps running totals per window.
+ * Listeners are plain callbacks, so it runs in Node and in the browser.
+ */
+export class FootprintTracker {
+  private readonly defaultLabels: TrackerLabels;
+  private readonly windowMs?: number;
+  private readonly maxEntries: number;
+  private readonly now: () => number;
+  private readonly estimateOptions: EstimateOptions;
+  private readonly listeners: {
+    [E in TrackerEvent]: Set<TrackerListener<E>>;
+  } = { record: new Set(), reset: new Set() };
+  private entries: TrackedImpact[] = [];
+  private totals: AggregateImpactResult = aggregateImpacts([]);
+  private byLabel: Record<string, Record<string, AggregateImpactResult>> = {};
+  private windowStart: number;
+
+  constructor(options: FootprintTrackerOptions = {}) {
+    if (options.windowMs !== undefined) {
+      requirePositive("windowMs", options.windowMs);
+    }
+    const maxEntries = options.maxEntries ?? DEFAULT_TRACKER_MAX_ENTRIES;
+    requireNonNegative("maxEntries", maxEntries);
+    requireInteger("maxEntries", maxEntries);
+    this.defaultLabels = { ...options.labels };
+    this.windowMs = options.windowMs;
+    this.maxEntries = maxEntries;
+    this.now = options.now ?? Date.now;
+    this.estimateOptions = options.estimateOptions ?? {};
+    this.windowStart = this.now();
+  }
+
+  /**
+   * Estimates `input` and records the result.
+   */
+  track(input: ImpactInputs, labels: TrackerLabels = {}): ImpactResult {
+    const result = estimateImpact(input, this.estimateOptions);
+    this.record(result, labels, {
+      usage: input.usage,
+      timestamp: input.timestamp,
+    });
+    return result;
+  }
+
+  record(
+    result: ImpactResult,
+    labels: TrackerLabels = {},
+    context: { usage?: Usage; timestamp?: Date | number } = {},
+  ): TrackedImpact {
+    const now = this.now();
+    if (
+      this.windowMs !== undefined &&
+      now - this.windowStart >= this.windowMs
+    ) {
+      this.reset();
+    }
+
+    const timestamp =
+      context.timestamp instanceof Date
+        ? context.timestamp.getTime()
+        : (context.timestamp ?? now);
+    const entry: TrackedImpact = {
+      result,
+      labels: { ...this.defaultLabels, ...labels },
+      timestamp,
+      usage: context.usage,
+    };
+
+    this.entries.push(entry);
+    if (this.entries.length > this.maxEntries) this.entries.shift();
+    this.totals = addImpact(this.totals, result);
+    for (const [name, value] of Object.entries(entry.labels)) {
+      if (value === undefined) continue;
+      const values = (this.byLabel[name] ??= {});
+      values[value] = addImpact(values[value] ?? aggregateImpacts([]), result);
+    }
+
+    this.emit("record", entry);
+    return entry;
+  }
+
+  /**
+   * Running totals of the current window.
+   */
+  getTotals(): AggregateImpactResult {
+    return copyAggregate(this.totals);
+  }
+
+  /**
+   * Totals of the current window per value of one label.
+   */
+  getTotalsBy(label: string): Record<string, AggregateImpactResult> {
+    return copyAggregates(this.byLabel[label]);
+  }
+
+  /**
+   * Retained records of the current window (at most `maxEntries`), oldest
+   * first.
+   */
+  getRecords(): TrackedImpact[] {
+    return [...this.entries];
+  }
+
+  /**
+   * Records of the current window in the shape `aggregateImpactsBy` takes,
+   * with labels as tags (`"tag:tenant"`) and `model` from the model label.
+   */
+  toAggregationRecords(): AggregationRecord[] {
+    return this.entries.map((entry) => ({
+      result: entry.result,
+      usage: entry.usage,
+      model: entry.labels.model,
+      tags: Object.fromEntries(
+        Object.entries(entry.labels).filter(
+          (label): label is [string, string] => label[1] !== undefined,
+        ),
+      ),
+      timestamp: entry.timestamp,
+    }));
+  }
+
+  snapshot(): TrackerSnapshot {
+    return {
+      windowStart: this.windowStart,
+      takenAt: this.now(),
+      totals: copyAggregate(this.totals),
+      byLabel: Object.fromEntries(
+        Object.entries(this.byLabel).map(([name, values]) => [
+          name,
+          copyAggregates(values),
+        ]),
+      ),
+    };
+  }
+
+  /**
+   * Closes the current window and starts a new one. Returns the snapshot
+   * of the closed window, which is also emitted as a "reset" event.
+   */
+  reset(): TrackerSnapshot {
+    const closed = this.snapshot();
+    this.entries = [];
+    this.totals = aggregateImpacts([]);
+    this.byLabel = {};
+    this.windowStart = closed.takenAt;
+    this.emit("reset", closed);
+    return closed;
+  }
+
+  /**
+   * Subscribes to an event. Returns a function that unsubscribes.
+   */
+  on<E extends TrackerEvent>(
+    event: E,
+    listener: TrackerListener<E>,
+  ): () => void {
+    const listeners = this.listeners[event] as Set<TrackerListener<E>>;
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  private emit<E extends TrackerEvent>(
+    event: E,
+    payload: TrackerEventMap[E],
+  ): void {
+    const listeners = this.listeners[event] as Set<TrackerListener<E>>;
+    for (const listener of listeners) listener(payload);
+  }
+}
+
+const RESULT_REPORT_COLUMNS = [
+  "category",
+  "energyKwh",
+  "co2Grams",
+  "co2GramsMarketBased",
+  "embodiedCo2Grams",
+  "totalCo2Grams",
+  "waterLiters",
+  "gridCarbonIntensityGPerKwh",
+  "gridDatasetId",
+  "effectivePowerW",
+  "processingTimeSeconds",
+];
+
+const AGGREGATE_REPORT_COLUMNS = [
+  "count",
+  "energyKwh",
+  "co2Grams",
+  "co2GramsMarketBased",
+  "embodiedCo2Grams",
+  "totalCo2Grams",
+  "waterLiters",
+];
+
+type ReportCell = string | number | undefined;
+
+/**
+ * Scalar fields of an object, with nested objects flattened to dotted
+ * columns (`powerBreakdown.pue`). Arrays such as `notes` are skipped.
+ */
+function flattenReportRow(
+  value: object,
+  prefix = "",
+): Record<string, ReportCell> {
+  const row: Record<string, ReportCell> = {};
+  for (const [key, field] of Object.entries(value as Record<string, unknown>)) {
+    if (typeof field === "number" || typeof field === "string") {
+      row[`${prefix}${key}`] = field;
+    } else if (
+      typeof field === "object" &&
+      field !== null &&
+      !Array.isArray(field)
+    ) {
+      Object.assign(row, flattenReportRow(field, `${prefix}${key}.`));
+    }
+  }
+  return row;
+}
+
+function isGroupedAggregate(
+  source: ReportSource,
+): source is GroupedAggregateResult {
+  return !Array.isArray(source) && "groups" in source;
+}
+
+/**
+ * Flattens a report source into rows and the default column order.
+ */
+function toReportTable(source: ReportSource): {
+  columns: string[];
+  rows: Array<Record<string, ReportCell>>;
+} {
+  if (Array.isArray(source)) {
+    return {
+      columns: RESULT_REPORT_COLUMNS,
+      rows: source.map((result) => flattenReportRow(result)),
+    };
+  }
+  if (!isGroupedAggregate(source)) {
+    return {
+      columns: AGGREGATE_REPORT_COLUMNS,
+      rows: [flattenReportRow(source)],
+    };
+  }
+  const dimensions = Object.keys(source.groups[0]?.key ?? {});
+  return {
+    columns: [
+      ...dimensions,
+      ...AGGREGATE_REPORT_COLUMNS,
+      "co2GramsPer1kTokens",
+      "energyKwhPer1kTokens",
+    ],
+    rows: source.groups.map((group) => ({
+      ...group.key,
+      ...Object.fromEntries(
+        AGGREGATE_REPORT_COLUMNS.map((column) => [
+          column,
+          group[column as keyof AggregateImpactResult],
+        ]),
+      ),
+      co2GramsPer1kTokens: group.intensity.co2GramsPer1kTokens,
+      energyKwhPer1kTokens: group.intensity.energyKwhPer1kTokens,
+    })),
+  };
+}
+
+function escapeCsv(value: ReportCell): string {
+  const text = value === undefined ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * CSV with a header row, full-precision numbers and `\n` line endings.
+ */
+export function formatImpactCsv(
+  source: ReportSource,
+  options: TableReportOptions = {},
+): string {
+  const table = toReportTable(source);
+  const columns = options.columns ?? table.columns;
+  return [
+    columns,
+    ...table.rows.map((row) => columns.map((column) => row[column])),
+  ]
+    .map((cells) => `${cells.map(escapeCsv).join(",")}\n`)
+    .join("");
+}
+
+/**
+ * GitHub-flavoured Markdown table; numbers are right-aligned and rounded
+ * to `precision` significant digits.
+ */
+export function formatImpactMarkdown(
+  source: ReportSource,
+  options: TableReportOptions = {},
+): string {
+  const precision = options.precision ?? 4;
+  requirePositive("precision", precision);
+  requireInteger("precision", precision);
+  const table = toReportTable(source);
+  const columns = options.columns ?? table.columns;
+  const numeric = columns.map((column) =>
+    table.rows.some((row) => typeof row[column] === "number"),
+  );
+  const format = (value: ReportCell) =>
+    value === undefined
+      ? ""
+      : typeof value === "number"
+        ? String(Number(value.toPrecision(precision)))
+        : value.replace(/\|/g, "\\|");
+  return [
+    `| ${columns.join(" | ")} |`,
+    `|${numeric.map((isNumber) => (isNumber ? "---:" : "---")).join("|")}|`,
+    ...table.rows.map(
+      (row) =>
+        `| ${columns.map((column) => format(row[column])).join(" | ")} |`,
+    ),
+  ]
+    .map((line) => `${line}\n`)
+    .join("");
+}
+
+function canonicalize(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(canonicalize);
+  if (typeof value === "number") return Object.is(value, -0) ? 0 : value;
+  if (typeof value !== "object" || value === null) return value;
+  return Object.fromEntries(
+    Object.keys(value)
+      .sort()
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .map((key) => [
+        key,
+        canonicalize((value as Record<string, unknown>)[key]),
+      ]),
+  );
+}
+
+/**
+ * Canonical JSON: keys sorted at every level, undefined fields dropped,
+ * two-space indentation and a trailing newline, so equal inputs always
+ * serialize to equal text.
+ */
+export function formatImpactJson(source: ReportSource | GhgReport): string {
+  return `${JSON.stringify(canonicalize(source), null, 2)}\n`;
+}
+
+/**
+ * Summarizes results in the shape of a GHG Protocol inventory line:
+ * location-based operational emissions and embodied emissions split by
+ * scope, with the grid datasets and assumptions behind them.
+ */
+export function buildGhgReport(
+  source: ReportSource,
+  options: GhgReportOptions = {},
+): GhgReport {
+  const boundary = options.boundary ?? "purchased";
+  if (boundary !== "owned" && boundary !== "purchased") {
+    throw invalid(
+      "boundary",
+      "invalid_value",
+      `Unknown GHG boundary "${String(boundary)}".`,
+    );
+  }
+
+  const totals = Array.isArray(source)
+    ? aggregateImpacts(source)
+    : isGroupedAggregate(source)
+      ? source.total
+      : source;
+  const registered = listGridIntensityDatasets();
+  const gridDatasets = totals.gridDatasetIds.map(
+    (id) =>
+      registered.find((metadata) => metadata.id === id) ?? {
+        id,
+        year: 0,
+        unit: "gCO2/kWh",
+        source: "unregistered",
+      },
+  );
+
+  const locationBasedCo2Kg = totals.co2GramsLocationBased / 1000;
+  const marketBasedCo2Kg = totals.co2GramsMarketBased / 1000;
+  const embodiedCo2Kg = totals.embodiedCo2Grams / 1000;
+  const electricity = (
+    method: "location" | "market",
+    co2Kg: number,
+  ): GhgScopeEntry =>
+    boundary === "owned"
+      ? {
+          scope: "scope2",
+          method,
+          description: `Purchased electricity for inference (${method}-based)`,
+          co2Kg,
+        }
+      : {
+          scope: "scope3",
+          category: "1: Purchased goods and services",
+          method,
+          description: `Electricity used by purchased inference (${method}-based)`,
+          co2Kg,
+        };
+  const scopes: GhgScopeEntry[] = [
+    electricity("location", locationBasedCo2Kg),
+    electricity("market", marketBasedCo2Kg),
+    boundary === "owned"
+      ? {
+          scope: "scope3",
+          category: "2: Capital goods",
+          description: "Amortized embodied emissions of inference hardware",
+          co2Kg: embodiedCo2Kg,
+        }
+      : {
+          scope: "scope3",
+          category: "1: Purchased goods and services",
+          description: "Amortized embodied emissions of provider hardware",
+          co2Kg: embodiedCo2Kg,
+        },
+  ];
+
+  const assumptions = [
+    "Energy = effective power (devices, CPU, network and attributed node idle, times overhead factor and PUE) x processing time, unless measured energy was provided.",
+    "Location-based emissions use the grid carbon intensity resolved for each request: an explicit value, a resolver or time profile when configured, else the annual average of the listed dataset for the request region (the dataset's global average for unknown regions).",
+    "Market-based emissions apply contractual instrument factors (RECs, GOs, PPAs) to covered energy and the supplier-specific factor, else the residual mix, else the location-based intensity to the rest.",
+    "Embodied emissions are amortized over hardware lifetime and utilization, and are zero where no embodied inputs were provided.",
+    "Water covers on-site data center use (WUE) and off-site electricity generation.",
+  ];
+  if (Array.isArray(source) && source.length > 0) {
+    let minPue = Infinity;
+    let maxPue = -Infinity;
+    for (const result of source) {
+      minPue = Math.min(minPue, result.powerBreakdown.pue);
+      maxPue = Math.max(maxPue, result.powerBreakdown.pue);
+    }
+    assumptions.push(`PUE ranged from ${minPue} to ${maxPue}.`);
+  }
+
+  return {
+    organization: options.organization,
+    period: options.period,
+    boundary,
+    requestCount: totals.count,
+    energyKwh: totals.energyKwh,
+    locationBasedCo2Kg,
+    marketBasedCo2Kg,
+    embodiedCo2Kg,
+    totalCo2Kg: totals.totalCo2Grams / 1000,
+    waterLiters: totals.waterLiters,
+    scopes,
+    gridDatasets,
+    assumptions,
+  };
+}
+
+/**
+ * Renders a GHG report as a Markdown document.
+ */
+export function formatGhgReportMarkdown(report: GhgReport): string {
+  const number = (value: number) => String(Number(value.toPrecision(4)));
+  const lines = [
+    `# GHG Emissions Summary${report.organization ? `: ${report.organization}` : ""}`,
+    "",
+    ...(report.period
+      ? [`Reporting period: ${report.period.start} to ${report.period.end}`, ""]
+      : []),
+    `Boundary: ${report.boundary === "owned" ? "owned infrastructure" : "purchased inference"}`,
+    "",
+    "| Metric | Value |",
+    "|---|---:|",
+    `| Requests | ${report.requestCount} |`,
+    `| Energy (kWh) | ${number(report.energyKwh)} |`,
+    `| Location-based CO2 (kg) | ${number(report.locationBasedCo2Kg)} |`,
+    `| Market-based CO2 (kg) | ${number(report.marketBasedCo2Kg)} |`,
+    `| Embodied CO2 (kg) | ${number(report.embodiedCo2Kg)} |`,
+    `| Total CO2, location-based (kg) | ${number(report.totalCo2Kg)} |`,
+    `| Water (L) | ${number(report.waterLiters)} |`,
+    "",
+    "## Scopes",
+    "",
+    "| Scope | Category | Method | Description | CO2 (kg) |",
+    "|---|---|---|---|---:|",
+    ...report.scopes.map(
+      (entry) =>
+        `| ${entry.scope === "scope2" ? "Scope 2" : "Scope 3"} | ${entry.category ?? ""} | ${entry.method ?? ""} | ${entry.description} | ${number(entry.co2Kg)} |`,
+    ),
+    "",
+    "## Grid Intensity Datasets",
+    "",
+    ...report.gridDatasets.map(
+      (dataset) =>
+        `- ${dataset.id}: ${dataset.source} (${dataset.year}, ${dataset.unit})${dataset.sourceUrl ? ` ${dataset.sourceUrl}` : ""}`,
+    ),
+    "",
+    "## Methodology and Assumptions",
+    "",
+    ...report.assumptions.map((assumption) => `- ${assumption}`),
+  ];
+  return `${lines.join("\n")}\n`;
+}
+
+const DEFAULT_BUDGET_THRESHOLDS = [0.5, 0.8, 1];
+const BUDGET_METRICS: BudgetMetric[] = ["co2Grams", "energyKwh"];
+
+interface BudgetState {
+  budget: BudgetDefinition;
+  thresholds: number[];
+  period: string;
+  used: Record<BudgetMetric, number>;
+  fired: Set<string>;
+}
+
+function matchesLabels(
+  required: TrackerLabels | undefined,
+  labels: TrackerLabels,
+): boolean {
+  return Object.entries(required ?? {}).every(
+    ([name, value]) => value === undefined || labels[name] === value,
+  );
+}
+
+function validateBudget(budget: BudgetDefinition, index: number): void {
+  const path = `budgets[${index}]`;
+  if (!budget.id) {
+    throw invalid(`${path}.id`, "required", `${path}.id is required.`);
+  }
+  if (!["hour", "day", "month", "total"].includes(budget.period)) {
+    throw invalid(
+      `${path}.period`,
+      "invalid_value",
+      `Unknown budget period "${String(budget.period)}".`,
+    );
+  }
+  if (budget.co2Grams === undefined && budget.energyKwh === undefined) {
+    throw invalid(
+      path,
+      "required",
+      `Budget "${budget.id}" needs a co2Grams or energyKwh limit.`,
+    );
+  }
+  for (const metric of BUDGET_METRICS) {
+    const limit = budget[metric];
+    if (limit !== undefined) requirePositive(`${path}.${metric}`, limit);
+  }
+  budget.thresholds?.forEach((threshold, i) =>
+    requirePositive(`${path}.thresholds[${i}]`, threshold),
+  );
+}
+
+/**
+ * Tracks CO2 and energy allowances per label and period. Soft budgets
+ * report thresholds; hard budgets also reject requests in `preflight()`.
+ * The clock is injectable, so periods and thresholds are deterministic.
+ */
+export class BudgetManager {
+  private readonly states: BudgetState[];
+  private readonly onThreshold?: (event: BudgetThresholdEvent) => void;
+  private readonly now: () => number;
+  private readonly timeZone: string;
+  private readonly estimateOptions: EstimateOptions;
+
+  constructor(options: BudgetManagerOptions) {
+    const ids = new Set<string>();
+    options.budgets.forEach((budget, index) => {
+      validateBudget(budget, index);
+      if (ids.has(budget.id)) {
+        throw invalid(
+          `budgets[${index}].id`,
+          "duplicate",
+          `Duplicate budget id "${budget.id}".`,
+        );
+      }
+      ids.add(budget.id);
+    });
+
+    this.onThreshold = options.onThreshold;
+    this.now = options.now ?? Date.now;
+    this.timeZone = options.timeZone ?? "UTC";
+    this.estimateOptions = options.estimateOptions ?? {};
+    getZonedFormatter(this.timeZone);
+
+    const period = this.now();
+    this.states = options.budgets.map((budget) => ({
+      budget,
+      thresholds: [...(budget.thresholds ?? DEFAULT_BUDGET_THRESHOLDS)].sort(
+        (a, b) => a - b,
+      ),
+      period: this.periodOf(budget, period),
+      used: { co2Grams: 0, energyKwh: 0 },
+      fired: new Set<string>(),
+    }));
+  }
+
+  /**
+   * Counts a result against every matching budget and fires crossed
+   * thresholds. Returns the statuses of the matching budgets. A result dated
+   * before a budget's current period is not counted and raises an `ignored`
+   * warning; one dated after the clock counts now. Periods only move
+   * forward, and never past the clock.
+   */
+  record(
+    result: ImpactResult,
+    labels: TrackerLabels = {},
+    timestamp?: Date | number,
+  ): BudgetStatus[] {
+    const now = this.now();
+    const at = Math.min(
+      timestamp === undefined ? now : toEpochMs(timestamp),
+      now,
+    );
+    return this.matching(labels).map((state) => {
+      const period = this.periodOf(state.budget, at);
+      if (period < state.period) {
+        emitWarning(
+          "timestamp",
+          "ignored",
+          `Budget "${state.budget.id}": result from ${period} is before the current period ${state.period} and was not counted.`,
+        );
+        return this.toStatus(state, state.used);
+      }
+      this.roll(state, at);
+      state.used.co2Grams += result.totalCo2Grams;
+      state.used.energyKwh += result.energyKwh;
+      const status = this.toStatus(state, state.used);
+      this.fireThresholds(state, status);
+      return status;
+    });
+  }
+
+  /**
+   * Projected statuses of the matching budgets if `result` were recorded.
+   * Nothing is counted.
+   */
+  check(result: ImpactResult, labels: TrackerLabels = {}): BudgetStatus[] {
+    const at = this.now();
+    return this.matching(labels).map((state) => {
+      this.roll(state, at);
+      return this.toStatus(state, {
+        co2Grams: state.used.co2Grams + result.totalCo2Grams,
+        energyKwh: state.used.energyKwh + result.energyKwh,
+      });
+    });
+  }
+
+  /**
+   * Estimates `input` and throws `BudgetExceededError` when a matching hard
+   * budget would be exceeded. The estimate is not recorded; call `record()`
+   * once the request has run.
+   */
+  preflight(input: ImpactInputs, labels: TrackerLabels = {}): ImpactResult {
+    const result = estimateImpact(input, this.estimateOptions);
+    const hard = new Set(
+      this.matching(labels)
+        .filter((state) => state.budget.mode === "hard")
+        .map((state) => state.budget.id),
+    );
+    const exceeded = this.check(result, labels).filter(
+      (status) => status.exceeded && hard.has(status.budgetId),
+    );
+    if (exceeded.length > 0) throw new BudgetExceededError(exceeded);
+    return result;
+  }
+
+  getStatus(budgetId: string): BudgetStatus | undefined {
+    const state = this.states.find((entry) => entry.budget.id === budgetId);
+    if (!state) return undefined;
+    this.roll(state, this.now());
+    return this.toStatus(state, state.used);
+  }
+
+  getStatuses(): BudgetStatus[] {
+    const at = this.now();
+    return this.states.map((state) => {
+      this.roll(state, at);
+      return this.toStatus(state, state.used);
+    });
+  }
+
+  /**
+   * Records every result the tracker records, with the tracker's labels.
+   * Returns a function that detaches.
+   */
+  attach(tracker: FootprintTracker): () => void {
+    return tracker.on("record", (entry) => {
+      this.record(entry.result, entry.labels, entry.timestamp);
+    });
+  }
+
+  private matching(labels: TrackerLabels): BudgetState[] {
+    return this.states.filter((state) =>
+      matchesLabels(state.budget.labels, labels),
+    );
+  }
+
+  private periodOf(budget: BudgetDefinition, at: number): string {
+    return budget.period === "total"
+      ? "total"
+      : formatTimeBucket(at, budget.period, this.timeZone);
+  }
+
+  /**
+   * Advances to the period of `at` when it is later. Period keys are
+   * zero-padded, so string order is time order.
+   */
+  private roll(state: BudgetState, at: number): void {
+    const period = this.periodOf(state.budget, at);
+    if (period <= state.period) return;
+    state.period = period;
+    state.used = { co2Grams: 0, energyKwh: 0 };
+    state.fired.clear();
+  }
+
+  private toStatus(
+    state: BudgetState,
+    used: Record<BudgetMetric, number>,
+  ): BudgetStatus {
+    const status: BudgetStatus = {
+      budgetId: state.budget.id,
+      period: state.period,
+      exceeded: false,
+    };
+    for (const metric of BUDGET_METRICS) {
+      const limit = state.budget[metric];
+      if (limit === undefined) continue;
+      status[metric] = {
+        limit,
+        used: used[metric],
+        remaining: Math.max(0, limit - used[metric]),
+        usedPercent: (used[metric] / limit) * 100,
+      };
+      if (used[metric] > limit) status.exceeded = true;
+    }
+    return status;
+  }
+
+  private fireThresholds(state: BudgetState, status: BudgetStatus): void {
+    for (const metric of BUDGET_METRICS) {
+      const metricStatus = status[metric];
+      if (!metricStatus) continue;
+      for (const threshold of state.thresholds) {
+        const key = `${metric}:${threshold}`;
+        if (
+          metricStatus.used < metricStatus.limit * threshold ||
+          state.fired.has(key)
+        ) {
+          continue;
+        }
+        state.fired.add(key);
+        this.onThreshold?.({
+          budgetId: state.budget.id,
+          metric,
+          threshold,
+          status,
+        });
+      }
+    }
+  }
+}
+
+export function estimateImpactRange(
+  input: ImpactInputs,
+  ranges: UncertaintyRanges,
+  options: EstimateOptions = {},
+): ImpactRangeResult {
+  validateRange("gpuPowerW", ranges.gpuPowerW);
+  // Utilization may reach 0 (idle), unlike the other ranges.
+  if (ranges.utilization) {
+    requireFraction("utilization.min", ranges.utilization.min);
+    requireFraction("utilization.max", ranges.utilization.max);
+    if (ranges.utilization.max < ranges.utilization.min) {
+      throw invalid(
+        "utilization.max",
+        "invalid_range",
+        "utilization.max must be >= utilization.min.",
+      );
+    }
+  }
+  validateRange("pue", ranges.pue);
+  validateRange("overheadFactor", ranges.overheadFactor);
+  validateRange("efficiencyFactor", ranges.efficiencyFactor);
+  validateRange("tokensPerSecond", ranges.tokensPerSecond);
+  validateRange("inputTokensPerSecond", ranges.inputTokensPerSecond);
+  validateRange("outputTokensPerSecond", ranges.outputTokensPerSecond);
+  validateRange("timeToFirstTokenSeconds", ranges.timeToFirstTokenSeconds);
+  validateRange("energyJoulesPerInputToken", ranges.energyJoulesPerInputToken);
+  validateRange(
+    "energyJoulesPerOutputToken",
+    ranges.energyJoulesPerOutputToken,
+  );
+  validateRange("audioSecondsPerSecond", ranges.audioSecondsPerSecond);
+  validateRange("pixelsPerSecond", ranges.pixelsPerSecond);
+  validateRange("editPixelsPerSecond", ranges.editPixelsPerSecond);
+  validateRange("visionPixelsPerSecond", ranges.visionPixelsPerSecond);
+  validateRange("videoPixelsPerSecond", ranges.videoPixelsPerSecond);
+  validateRange("rerankDocumentsPerSecond", ranges.rerankDocumentsPerSecond);
+  validateRange(
+    "gridCarbonIntensityGPerKwh",
+    ranges.gridCarbonIntensityGPerKwh,
+  );
+
+  const base = estimateImpact(input, options);
+
+  const hasEnergyOverride =
+    !!input.energy?.energyKwh || !!input.energy?.energyJoules;
+
+  if (hasEnergyOverride) {
+    return {
+      base,
+      energyKwhMin: base.energyKwh,
+      energyKwhMax: base.energyKwh,
+      co2GramsMin: base.co2Grams,
+      co2GramsMax: base.co2Grams,
+    };
+  }
+
+  const lowInput = buildInputWithRanges(input, ranges, "min");
+  const highInput = buildInputWithRanges(input, ranges, "max");
+
+  // Corner traces are not returned, so only strictness carries over.
+  const cornerOptions: EstimateOptions = { strict: options.strict };
+  const low = estimateImpact(lowInput, cornerOptions);
+  const high = estimateImpact(highInput, cornerOptions);
+
+  return {
+    base,
+    energyKwhMin: Math.min(low.energyKwh, high.energyKwh),
+    energyKwhMax: Math.max(low.energyKwh, high.energyKwh),
+    co2GramsMin: Math.min(low.co2Grams, high.co2Grams),
+    co2GramsMax: Math.max(low.co2Grams, high.co2Grams),
+  };
+}
+
+const DEFAULT_DISTRIBUTION_SAMPLES = 1000;
+const DEFAULT_DISTRIBUTION_SEED = 1;
+const MAX_SAMPLE_ATTEMPTS = 100;
+
+/**
+ * Mulberry32: small, fast, seedable PRNG. Returns values in [0, 1).
+ */
+function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function sampleStandardNormal(random: () => number): number {
+  // Box-Muller; 1 - u keeps the logarithm argument in (0, 1].
+  const u = 1 - random();
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+function validateDistribution(
+  name: string,
+  distribution: ParameterDistribution,
+): void {
+  switch (distribution.type) {
+    case "uniform":
+      validateRange(name, distribution);
+      return;
+    case "normal":
+      requirePositive(`${name}.stdDev`, distribution.stdDev);
+      if (!Number.isFinite(distribution.mean)) {
+        throw invalid(
+          `${name}.mean`,
+          "invalid_value",
+          `${name}.mean must be a finite number.`,
+        );
+      }
+      return;
+    case "lognormal":
+      requirePositive(`${name}.sigma`, distribution.sigma);
+      if (!Number.isFinite(distribution.mu)) {
+        throw invalid(
+          `${name}.mu`,
+          "invalid_value",
+          `${name}.mu must be a finite number.`,
+        );
+      }
+      return;
+    case "triangular":
+      validateRange(name, distribution);
+      if (
+        !(distribution.mode >= distribution.min) ||
+        !(distribution.mode <= distribution.max)
+      ) {
+        throw invalid(
+          `${name}.mode`,
+          "invalid_range",
+          `${name}.mode must be between ${name}.min and max.`,
+        );
+      }
+      return;
+    default:
+      throw invalid(
+        `${name}.type`,
+        "invalid_value",
+        `${name} has an unsupported distribution type.`,
+      );
+  }
+}
+
+function drawFromDistribution(
+  distribution: ParameterDistribution,
+  random: () => number,
+): number {
+  switch (distribution.type) {
+    case "uniform":
+      return (
+        distribution.min + (distribution.max - distribution.min) * random()
+      );
+    case "normal":
+      return (
+        distribution.mean + distribution.stdDev * sampleStandardNormal(random)
+      );
+    case "lognormal":
+      return Math.exp(
+        distribution.mu + distribution.sigma * sampleStandardNormal(random),
+      );
+    case "triangular": {
+      const { min, mode, max } = distribution;
+      const u = random();
+      const split = max === min ? 0 : (mode - min) / (max - min);
+      return u < split
+        ? min + Math.sqrt(u * (max - min) * (mode - min))
+        : max - Math.sqrt((1 - u) * (max - min) * (max - mode));
+    }
+  }
+}
+
+function sampleParameter(
+  name: UncertainParameter,
+  distribution: ParameterDistribution,
+  random: () => number,
+): number {
+  const lower = distribution.type === "normal" ? distribution.min : undefined;
+  const upper = distribution.type === "normal" ? distribution.max : undefined;
+  const maxAllowed = name === "utilization" ? 1 : Infinity;
+
+  for (let attempt = 0; attempt < MAX_SAMPLE_ATTEMPTS; attempt++) {
+    const value = drawFromDistribution(distribution, random);
+    if (value <= 0 || value > maxAllowed) continue;
+    if (lower !== undefined && value < lower) continue;
+    if (upper !== undefined && value > upper) continue;
+    return value;
+  }
+
+  throw invalid(
+    name,
+    "invalid_range",
+    `${name} distribution did not produce a valid value in ${MAX_SAMPLE_ATTEMPTS} draws.`,
+  );
+}
+
+function percentile(sorted: number[], p: number): number {
+  const position = (sorted.length - 1) * p;
+  const lowerIndex = Math.floor(position);
+  const upperIndex = Math.ceil(position);
+  const lower = sorted[lowerIndex] as number;
+  const upper = sorted[upperIndex] as number;
+  return lower + (upper - lower) * (position - lowerIndex);
+}
+
+function buildHistogram(sorted: number[], bins: number): HistogramBin[] {
+  const min = sorted[0] as number;
+  const max = sorted[sorted.length - 1] as number;
+  const width = (max - min) / bins;
+  const histogram: HistogramBin[] = Array.from({ length: bins }, (_, i) => ({
+    lower: min + width * i,
+    upper: i === bins - 1 ? max : min + width * (i + 1),
+    count: 0,
+  }));
+
+  for (const value of sorted) {
+    const index =
+      width === 0 ? 0 : Math.min(Math.floor((value - min) / width), bins - 1);
+    (histogram[index] as HistogramBin).count += 1;
+  }
+
+  return histogram;
+}
+
+function summarizeSamples(
+  values: number[],
+  histogramBins?: number,
+): DistributionSummary {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mean = sorted.reduce((sum, value) => sum + value, 0) / sorted.length;
+  const variance =
+    sorted.reduce((sum, value) => sum + (value - mean) ** 2, 0) / sorted.length;
+
+  return {
+    mean,
+    median: percentile(sorted, 0.5),
+    stdDev: Math.sqrt(variance),
+    p5: percentile(sorted, 0.05),
+    p95: percentile(sorted, 0.95),
+    min: sorted[0] as number,
+    max: sorted[sorted.length - 1] as number,
+    histogram: histogramBins
+      ? buildHistogram(sorted, histogramBins)
+      : undefined,
+  };
+}
+
+/**
+ * Monte Carlo variant of `estimateImpactRange`: samples each uncertain
+ * parameter from its distribution and summarizes energy and CO2.
+ * A seeded generator keeps the output deterministic.
+ */
+export function estimateImpactDistribution(
+  input: ImpactInputs,
+  distributions: UncertaintyDistributions,
+  options: DistributionOptions = {},
+): ImpactDistributionResult {
+  const samples = options.samples ?? DEFAULT_DISTRIBUTION_SAMPLES;
+  const seed = options.seed ?? DEFAULT_DISTRIBUTION_SEED;
+  requirePositive("samples", samples);
+  requireInteger("samples", samples);
+  requireInteger("seed", seed);
+  if (options.histogramBins !== undefined) {
+    requirePositive("histogramBins", options.histogramBins);
+    requireInteger("histogramBins", options.histogramBins);
+  }
+
+  // Sorted keys keep sampling order independent of object key order.
+  const entries = (Object.keys(distributions) as UncertainParameter[])
+    .sort()
+    .flatMap((key) => {
+      const distribution = distributions[key];
+      return distribution ? [[key, distribution] as const] : [];
+    });
+  entries.forEach(([key, distribution]) =>
+    validateDistribution(key, distribution),
+  );
+
+  const base = estimateImpact(input, {
+    strict: options.strict,
+    explain: options.explain,
+  });
+  const random = createSeededRandom(seed);
+  const energySamples: number[] = [];
+  const co2Samples: number[] = [];
+
+  // Other warnings repeat those of the base estimate; clamps vary per draw
+  // and are counted instead. Strict mode rejects a draw like a range corner.
+  const clamped = new Map<string, number>();
+  const countClamps: WarningEmitter = (path, code) => {
+    if (code !== "clamped") return;
+    clamped.set(path, (clamped.get(path) ?? 0) + 1);
+  };
+  for (let i = 0; i < samples; i++) {
+    const values: UncertainParameterValues = {};
+    for (const [key, distribution] of entries) {
+      values[key] = sampleParameter(key, distribution, random);
+    }
+    const result = estimateImpactWith(
+      buildInputWithValues(input, values),
+      { strict: options.strict },
+      countClamps,
+    );
+    energySamples.push(result.energyKwh);
+    co2Samples.push(result.co2Grams);
+  }
+
+  return {
+    base,
+    samples,
+    seed,
+    energyKwh: summarizeSamples(energySamples, options.histogramBins),
+    co2Grams: summarizeSamples(co2Samples, options.histogramBins),
+    notes: [...clamped].map(
+      ([path, count]) => `${path} clamped in ${count} of ${samples} samples.`,
+    ),
+  };
+}
+
+export type AsyncGridIntensityResolver = (input: {
+  region?: RegionInput;
+  timestamp?: Date | number;
+}) => number | Promise<number>;
+
+export type AsyncImpactInputs = Omit<ImpactInputs, "gridIntensityResolver"> & {
+  gridIntensityResolver?: AsyncGridIntensityResolver;
+};
+
+export type AsyncMinimalImpactInputs = Omit<
+  MinimalImpactInputs,
+  "gridIntensityResolver"
+> & {
+  gridIntensityResolver?: AsyncGridIntensityResolver;
+};
+
+export interface GridIntensityCache {
+  get(key: string): number | undefined;
+  set(key: string, value: number): void;
+  clear(): void;
+}
+
+export interface GridIntensityCacheOptions {
+  /**
+   * How long an entry stays valid (ms). Default: 1 hour.
+   */
+  ttlMs?: number;
+
+  /**
+   * Maximum number of entries; the oldest is evicted first. Default: 1000.
+   */
+  maxEntries?: number;
+
+  /**
+   * Clock used for expiry. Default: `Date.now`.
+   */
+  now?: () => number;
+}
+
+export interface AsyncGridResolutionOptions extends EstimateOptions {
+  /**
+   * Resolver timeout (ms). On timeout the static dataset is used. Default: 2000.
+   */
+  timeoutMs?: number;
+
+  /**
+   * Width of the time bucket used in cache keys (ms). Default: 1 hour.
+   */
+  timeBucketMs?: number;
+
+  /**
+   * Cache for resolved values. Defaults to a shared in-memory cache per
+   * resolver function; pass `false` to disable caching.
+   */
+  cache?: GridIntensityCache | false;
+}
+
+const DEFAULT_RESOLVER_TIMEOUT_MS = 2000;
+const DEFAULT_TIME_BUCKET_MS = 3_600_000;
+const DEFAULT_CACHE_TTL_MS = 3_600_000;
+const DEFAULT_CACHE_MAX_ENTRIES = 1000;
+
+export function createGridIntensityCache(
+  options: GridIntensityCacheOptions = {},
+): GridIntensityCache {
+  const ttlMs = options.ttlMs ?? DEFAULT_CACHE_TTL_MS;
+  const maxEntries = options.maxEntries ?? DEFAULT_CACHE_MAX_ENTRIES;
+  const now = options.now ?? Date.now;
+  requirePositive("ttlMs", ttlMs);
+  requirePositive("maxEntries", maxEntries);
+
+  const entries = new Map<string, { value: number; expiresAt: number }>();
+
+  return {
+    get(key) {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      if (entry.expiresAt <= now()) {
+        entries.delete(key);
+        return undefined;
+      }
+      return entry.value;
+    },
+    set(key, value) {
+      entries.delete(key);
+      entries.set(key, { value, expiresAt: now() + ttlMs });
+      if (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value;
+        if (oldest !== undefined) entries.delete(oldest);
+      }
+    },
+    clear() {
+      entries.clear();
+    },
+  };
+}
+
+const resolverCaches = new WeakMap<
+  AsyncGridIntensityResolver,
+  GridIntensityCache
+>();
+
+function getResolverCache(
+  resolver: AsyncGridIntensityResolver,
+  cache: GridIntensityCache | false | undefined,
+): GridIntensityCache | undefined {
+  if (cache === false) return undefined;
+  if (cache) return cache;
+  let shared = resolverCaches.get(resolver);
+  if (!shared) {
+    shared = createGridIntensityCache();
+    resolverCaches.set(resolver, shared);
+  }
+  return shared;
+}
+
+function toEpochMs(timestamp: Date | number): number {
+  return timestamp instanceof Date ? timestamp.getTime() : timestamp;
+}
+
+function buildGridCacheKey(
+  region: RegionInput | undefined,
+  timestamp: Date | number | undefined,
+  timeBucketMs: number,
+): string {
+  const bucket = Math.floor(toEpochMs(timestamp ?? Date.now()) / timeBucketMs);
+  return `${region ?? "global"}|${bucket}`;
+}
+
+async function withTimeout<T>(
+  promise: Promise<T>,
+  timeoutMs: number,
+): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new Error(`timed out after ${timeoutMs}ms`)),
+      timeoutMs,
+    );
+  });
+  try {
+    return await Promise.race([promise, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Resolves grid intensity through an async resolver. Returns a sync resolver
+ * holding the value, so the estimate reports it with the "resolver" source,
+ * or `undefined` when the static dataset should be used, plus a description
+ * of the source.
+ */
+async function resolveGridIntensityAsync(
+  input: {
+    region?: RegionInput;
+    gridCarbonIntensityGPerKwh?: number;
+    gridIntensityResolver?: AsyncGridIntensityResolver;
+    timestamp?: Date | number;
+    gridDataset?: string | number;
+  },
+  options: AsyncGridResolutionOptions,
+): Promise<{ resolver?: () => number; source: string }> {
+  if (
+    typeof input.gridCarbonIntensityGPerKwh === "number" &&
+    input.gridCarbonIntensityGPerKwh > 0
+  ) {
+    return { source: "explicit value" };
+  }
+
+  const resolver = input.gridIntensityResolver;
+  if (!resolver) {
+    return { source: "static dataset" };
+  }
+
+  const timeoutMs = options.timeoutMs ?? DEFAULT_RESOLVER_TIMEOUT_MS;
+  const timeBucketMs = options.timeBucketMs ?? DEFAULT_TIME_BUCKET_MS;
+  requirePositive("timeoutMs", timeoutMs);
+  requirePositive("timeBucketMs", timeBucketMs);
+
+  const region = normalizeRegion(
+    input.region,
+    getGridIntensityDataset(input.gridDataset).values,
+  );
+  const cache = getResolverCache(resolver, options.cache);
+  const key = buildGridCacheKey(region, input.timestamp, timeBucketMs);
+
+  const cached = cache?.get(key);
+  if (cached !== undefined) {
+    return { resolver: () => cached, source: "resolver (cached)" };
+  }
+
+  try {
+    const resolved = await withTimeout(
+      Promise.resolve(resolver({ region, timestamp: input.timestamp })),
+      timeoutMs,
+    );
+    if (typeof resolved === "number" && resolved > 0) {
+      cache?.set(key, resolved);
+      return { resolver: () => resolved, source: "resolver" };
+    }
+    return {
+      source: "static dataset (resolver returned no value)",
+    };
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    return {
+      source: `static dataset (resolver failed: ${reason})`,
+    };
+  }
+}
+
+function appendGridSourceStep(result: ImpactResult, source: string): void {
+  const step: CalculationStep = {
+    kind: "grid_source",
+    inputs: {},
+    outputs: { source: { value: source } },
+  };
+  result.notes.push(...renderCalculationNotes([step]));
+  result.trace?.push(step);
+}
+
+/**
+ * Async variant of `estimateImpact` accepting a promise-returning
+ * `gridIntensityResolver`, with caching, a timeout and static fallback.
+ */
+export async function estimateImpactAsync(
+  input: AsyncImpactInputs,
+  options: AsyncGridResolutionOptions = {},
+): Promise<ImpactResult> {
+  const { gridIntensityResolver, ...rest } = input;
+  if (options.strict) assertStrictInputs(rest);
+  const { resolver, source } = await resolveGridIntensityAsync(
+    { ...rest, gridIntensityResolver },
+    options,
+  );
+  const result = estimateImpact(
+    { ...rest, gridIntensityResolver: resolver },
+    { strict: options.strict, explain: options.explain },
+  );
+  appendGridSourceStep(result, source);
+  return result;
+}
+
+export async function estimateImpactMinimalAsync(
+  input: AsyncMinimalImpactInputs,
+  options: AsyncGridResolutionOptions = {},
+): Promise<ImpactResult> {
+  const { gridIntensityResolver, ...rest } = input;
+  if (options.strict) assertStrictInputs(rest);
+  const { resolver, source } = await resolveGridIntensityAsync(
+    { ...rest, gridIntensityResolver },
+    options,
+  );
+  const result = estimateImpactMinimal(
+    { ...rest, gridIntensityResolver: resolver },
+    { strict: options.strict, explain: options.explain },
+  );
+  appendGridSourceStep(result, source);
+  return result;
+}
+
+export async function estimateImpactRangeAsync(
+  input: AsyncImpactInputs,
+  ranges: UncertaintyRanges,
+  options: AsyncGridResolutionOptions = {},
+): Promise<ImpactRangeResult> {
+  const { gridIntensityResolver, ...rest } = input;
+  if (options.strict) assertStrictInputs(rest);
+  const { resolver, source } = await resolveGridIntensityAsync(
+    { ...rest, gridIntensityResolver },
+    options,
+  );
+  const result = estimateImpactRange(
+    { ...rest, gridIntensityResolver: resolver },
+    ranges,
+    { strict: options.strict, explain: options.explain },
+  );
+  appendGridSourceStep(result.base, source);
+  return result;
+}
+
+export interface GridIntensityPoint {
+  /**
+   * ISO 8601 string or epoch ms. Strings without an offset are read in the
+   * profile's `timeZone`.
+   */
+  timestamp: string | number;
+  value: number;
+}
+
+interface GridIntensityProfileBase {
+  region: RegionInput;
+
+  /**
+   * IANA time zone used to bucket timestamps (e.g. "Europe/Berlin").
+   * Default: "UTC".
+   */
+  timeZone?: string;
+
+  /**
+   * "step" holds each bucket's value; "linear" interpolates between
+   * neighbouring buckets. Default: "step".
+   */
+  interpolation?: "step" | "linear";
+
+  source?: string;
+}
+
+export interface HourlyGridIntensityProfile extends GridIntensityProfileBase {
+  kind: "hourly";
+  /**
+   * 24 values (gCO2/kWh), index 0 = 00:00-01:00 local time.
+   */
+  values: number[];
+}
+
+export interface MonthlyGridIntensityProfile extends GridIntensityProfileBase {
+  kind: "monthly";
+  /**
+   * 12 values (gCO2/kWh), index 0 = January.
+   */
+  values: number[];
+}
+
+export interface SeriesGridIntensityProfile extends GridIntensityProfileBase {
+  kind: "series";
+  points: GridIntensityPoint[];
+}
+
+export type GridIntensityProfile =
+  | HourlyGridIntensityProfile
+  | MonthlyGridIntensityProfile
+  | SeriesGridIntensityProfile;
+
+interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+const zonedFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function getZonedFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = zonedFormatters.get(timeZone);
+  if (!formatter) {
+    try {
+      formatter = new Intl.DateTimeFormat("en-US", {
+        timeZone,
+        hourCycle: "h23",
+        year: "numeric",
+        month: "numeric",
+        day: "numeric",
+        hour: "numeric",
+        minute: "numeric",
+      });
+    } catch {
+      throw invalid(
+        "timeZone",
+        "invalid_value",
+        `Invalid timeZone "${timeZone}".`,
+      );
+    }
+    zonedFormatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+function getZonedParts(epochMs: number, timeZone: string): ZonedParts {
+  const parts: Record<string, number> = {};
+  for (const part of getZonedFormatter(timeZone).formatToParts(epochMs)) {
+    if (part.type !== "literal") parts[part.type] = Number(part.value);
+  }
+  return {
+    year: parts.year ?? 1970,
+    month: parts.month ?? 1,
+    day: parts.day ?? 1,
+    hour: parts.hour ?? 0,
+    minute: parts.minute ?? 0,
+  };
+}
+
+/**
+ * Converts a wall-clock time in `timeZone` to epoch ms. The offset is
+ * re-checked once so times next to a DST switch land on the right side.
+ */
+function zonedTimeToEpochMs(parts: ZonedParts, timeZone: string): number {
+  const asUtc = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+  );
+  const offsetAt = (epochMs: number): number => {
+    const zoned = getZonedParts(epochMs, timeZone);
+    return (
+      Date.UTC(
+        zoned.year,
+        zoned.month - 1,
+        zoned.day,
+        zoned.hour,
+        zoned.minute,
+      ) -
+      Math.floor(epochMs / 60_000) * 60_000
+    );
+  };
+  const firstGuess = asUtc - offsetAt(asUtc);
+  return asUtc - offsetAt(firstGuess);
+}
+
+const LOCAL_DATE_TIME_PATTERN =
+  /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::\d{2}(?:\.\d+)?)?)?$/;
+
+function parseProfileTimestamp(
+  timestamp: string | number,
+  timeZone: string,
+): number {
+  if (typeof timestamp === "number") return timestamp;
+  const local = LOCAL_DATE_TIME_PATTERN.exec(timestamp.trim());
+  if (local) {
+    return zonedTimeToEpochMs(
+      {
+        year: Number(local[1]),
+        month: Number(local[2]),
+        day: Number(local[3]),
+        hour: Number(local[4] ?? 0),
+        minute: Number(local[5] ?? 0),
+      },
+      timeZone,
+    );
+  }
+  const parsed = Date.parse(timestamp);
+  if (Number.isNaN(parsed)) {
+    throw invalid(
+      "timestamp",
+      "invalid_value",
+      `Invalid profile timestamp "${timestamp}".`,
+    );
+  }
+  return parsed;
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function lookupCyclic(
+  values: number[],
+  position: number,
+  interpolation: "step" | "linear",
+): number {
+  const index = Math.floor(position);
+  const current = values[index % values.length] as number;
+  if (interpolation === "step") return current;
+
+  // Values describe bucket midpoints; blend with the nearest neighbour.
+  const offset = position - index - 0.5;
+  const neighbourIndex =
+    (index + (offset >= 0 ? 1 : values.length - 1)) % values.length;
+  const neighbour = values[neighbourIndex] as number;
+  return current + (neighbour - current) * Math.abs(offset);
+}
+
+function lookupSeries(
+  points: Array<{ epochMs: number; value: number }>,
+  epochMs: number,
+  interpolation: "step" | "linear",
+): number {
+  const first = points[0] as { epochMs: number; value: number };
+  const last = points[points.length - 1] as { epochMs: number; value: number };
+  if (epochMs <= first.epochMs) return first.value;
+  if (epochMs >= last.epochMs) return last.value;
+
+  let low = 0;
+  let high = points.length - 1;
+  while (high - low > 1) {
+    const mid = (low + high) >> 1;
+    if ((points[mid] as { epochMs: number }).epochMs <= epochMs) low = mid;
+    else high = mid;
+  }
+
+  const before = points[low] as { epochMs: number; value: number };
+  const after = points[high] as { epochMs: number; value: number };
+  if (interpolation === "step") return before.value;
+  const t = (epochMs - before.epochMs) / (after.epochMs - before.epochMs);
+  return before.value + (after.value - before.value) * t;
+}
+
+function validateProfileValues(
+  name: string,
+  values: number[],
+  length: number,
+): void {
+  if (!Array.isArray(values) || values.length !== length) {
+    throw invalid(
+      `${name}.values`,
+      "invalid_value",
+      `${name}.values must contain ${length} numbers.`,
+    );
+  }
+  values.forEach((value, index) =>
+    requirePositive(`${name}.values[${index}]`, value),
+  );
+}
+
+function compileGridIntensityProfile(
+  profile: GridIntensityProfile,
+): (epochMs: number) => number {
+  const timeZone = profile.timeZone ?? "UTC";
+  const interpolation = profile.interpolation ?? "step";
+  const name = `profile "${profile.region}"`;
+  getZonedFormatter(timeZone);
+
+  switch (profile.kind) {
+    case "hourly":
+      validateProfileValues(name, profile.values, 24);
+      return (epochMs) => {
+        const parts = getZonedParts(epochMs, timeZone);
+        return lookupCyclic(
+          profile.values,
+          parts.hour + parts.minute / 60,
+          interpolation,
+        );
+      };
+    case "monthly":
+      validateProfileValues(name, profile.values, 12);
+      return (epochMs) => {
+        const parts = getZonedParts(epochMs, timeZone);
+        const monthFraction =
+          (parts.day - 1 + (parts.hour + parts.minute / 60) / 24) /
+          daysInMonth(parts.year, parts.month);
+        return lookupCyclic(
+          profile.values,
+          parts.month - 1 + monthFraction,
+          interpolation,
+        );
+      };
+    case "series": {
+      if (!Array.isArray(profile.points) || profile.points.length === 0) {
+        throw invalid(
+          `${name}.points`,
+          "required",
+          `${name}.points must not be empty.`,
+        );
+      }
+      const points = profile.points
+        .map((point, index) => {
+          requirePositive(`${name}.points[${index}].value`, point.value);
+          return {
+            epochMs: parseProfileTimestamp(point.timestamp, timeZone),
+            value: point.value,
+          };
+        })
+        .sort((a, b) => a.epochMs - b.epochMs);
+      return (epochMs) => lookupSeries(points, epochMs, interpolation);
+    }
+    default:
+      throw invalid(
+        `${name}.kind`,
+        "invalid_value",
+        `${name} has an unsupported kind.`,
+      );
+  }
+}
+
+function normalizeProfileRegion(region: RegionInput): string {
+  return normalizeRegion(region) ?? region.toString().toLowerCase().trim();
+}
+
+/**
+ * Builds a `gridIntensityResolver` from hourly, monthly or timestamped
+ * profiles. Regions without a profile, or calls without a timestamp,
+ * resolve to 0 so the regular region lookup applies.
+ */
+export function createProfileGridResolver(
+  profiles:
+    | readonly GridIntensityProfile[]
+    | { profiles: readonly GridIntensityProfile[] },
+): (input: { region?: RegionInput; timestamp?: Date | number }) => number {
+  const list = "profiles" in profiles ? profiles.profiles : profiles;
+  const lookups = new Map<string, (epochMs: number) => number>();
+
+  for (const profile of list) {
+    const region = normalizeProfileRegion(profile.region);
+    if (lookups.has(region)) {
+      throw invalid(
+        "profiles",
+        "duplicate",
+        `Duplicate grid intensity profile for "${region}".`,
+      );
+    }
+    lookups.set(region, compileGridIntensityProfile(profile));
+  }
+
+  return ({ region, timestamp }) => {
+    if (!region || timestamp === undefined) return 0;
+    const lookup = lookups.get(normalizeProfileRegion(region));
+    return lookup ? lookup(toEpochMs(timestamp)) : 0;
+  };
+}
+
+export interface GridIntensityCsvOptions {
+  /**
+   * Region for files without a `region` column.
+   */
+  region?: RegionInput;
+  timeZone?: string;
+  interpolation?: "step" | "linear";
+  source?: string;
+}
+
+/**
+ * Splits one CSV line into trimmed cells. Quoted cells may contain commas
+ * and `""` escapes; quoted line breaks are not supported.
+ */
+function splitCsvLine(text: string, line: number): string[] {
+  const cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i += 1) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell.trim() === "") {
+      cell = "";
+      quoted = true;
+    } else if (char === ",") {
+      cells.push(cell.trim());
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  if (quoted) {
+    throw new GridIntensityCsvError(
+      `CSV line ${line} has an unterminated quoted cell.`,
+      line,
+    );
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+/**
+ * Parses CSV into grid intensity profiles. A header row is required with an
+ * intensity column (`intensity`, `value` or `gco2_per_kwh`) and one of
+ * `timestamp`, `hour` (0-23) or `month` (1-12); `region` is optional.
+ */
+export function parseGridIntensityCsv(
+  csv: string,
+  options: GridIntensityCsvOptions = {},
+): GridIntensityProfile[] {
+  const rows = csv
+    .split(/\r?\n/)
+    .map((text, index) => ({ text: text.trim(), line: index + 1 }))
+    .filter(({ text }) => text && !text.startsWith("#"))
+    .map(({ text, line }) => ({ cells: splitCsvLine(text, line), line }));
+
+  const header = rows.shift()?.cells.map((cell) => cell.toLowerCase());
+  if (!header)
+    throw new GridIntensityCsvError("CSV must include a header row.");
+
+  const column = (...names: string[]): number =>
+    header.findIndex((cell) => names.includes(cell));
+  const regionColumn = column("region", "zone");
+  const valueColumn = column("intensity", "value", "gco2_per_kwh");
+  const timestampColumn = column("timestamp", "datetime", "time");
+  const hourColumn = column("hour");
+  const monthColumn = column("month");
+
+  if (valueColumn < 0) {
+    throw new GridIntensityCsvError("CSV is missing an intensity column.");
+  }
+  const kind: GridIntensityProfile["kind"] =
+    timestampColumn >= 0 ? "series" : hourColumn >= 0 ? "hourly" : "monthly";
+  if (kind === "monthly" && monthColumn < 0) {
+    throw new GridIntensityCsvError(
+      "CSV needs a timestamp, hour or month column.",
+    );
+  }
+  if (regionColumn < 0 && !options.region) {
+    throw new GridIntensityCsvError(
+      "CSV has no region column; pass options.region.",
+    );
+  }
+
+  const grouped = new Map<string, typeof rows>();
+  rows.forEach((row) => {
+    const region =
+      regionColumn >= 0 ? row.cells[regionColumn] : options.region?.toString();
+    if (!region) {
+      throw new GridIntensityCsvError(
+        `CSV line ${row.line} is missing a region.`,
+        row.line,
+      );
+    }
+    const group = grouped.get(region) ?? [];
+    group.push(row);
+    grouped.set(region, group);
+  });
+
+  const readNumberCell = (
+    row: { cells: string[]; line: number },
+    index: number,
+  ): number => {
+    const cell = row.cells[index];
+    const value = Number(cell);
+    if (cell === undefined || cell === "" || Number.isNaN(value)) {
+      throw new GridIntensityCsvError(
+        `CSV line ${row.line} has an invalid number.`,
+        row.line,
+      );
+    }
+    return value;
+  };
+
+  return [...grouped.entries()].map(([region, regionRows]) => {
+    const base = {
+      region,
+      timeZone: options.timeZone,
+      interpolation: options.interpolation,
+      source: options.source,
+    };
+
+    if (kind === "series") {
+      return {
+        ...base,
+        kind,
+        points: regionRows.map((row) => ({
+          timestamp: row.cells[timestampColumn] ?? "",
+          value: readNumberCell(row, valueColumn),
+        })),
+      };
+    }
+
+    const size = kind === "hourly" ? 24 : 12;
+    const keyColumn = kind === "hourly" ? hourColumn : monthColumn;
+    const offset = kind === "hourly" ? 0 : 1;
+    const values: number[] = new Array<number>(size).fill(NaN);
+    regionRows.forEach((row) => {
+      const slot = readNumberCell(row, keyColumn) - offset;
+      if (!Number.isInteger(slot) || slot < 0 || slot >= size) {
+        throw new GridIntensityCsvError(
+          `CSV line ${row.line} has an out-of-range ${kind}.`,
+          row.line,
+        );
+      }
+      values[slot] = readNumberCell(row, valueColumn);
+    });
+    return { ...base, kind, values };
+  });
+}
+
+export type PlacementWorkload = Omit<
+  ImpactInputs,
+  "region" | "timestamp" | "gridCarbonIntensityGPerKwh"
+>;
+
+export interface PlacementWindow {
+  /**
+   * Earliest start of the job.
+   */
+  start: Date | number;
+
+  /**
+   * Time by which the job must finish. Without a deadline only `start`
+   * is considered.
+   */
+  deadline?: Date | number;
+}
+
+export interface PlacementOptions {
+  /**
+   * Candidate regions, including cloud regions ("aws:eu-north-1").
+   */
+  regions: RegionInput[];
+
+  windows: PlacementWindow[];
+
+  /**
+   * Spacing of candidate start times within a window, and of intensity
+   * samples over the job's run (ms). Defaults to one hour.
+   */
+  stepMs?: number;
+
+  /**
+   * Placement savings are measured against. Defaults to the first region
+   * at the start of the first window.
+   */
+  baseline?: { region: RegionInput; start: Date | number };
+
+  /**
+   * Maximum number of ranked options returned. All by default.
+   */
+  limit?: number;
+}
+
+export interface PlacementOption {
+  region: RegionInput;
+  /**
+   * Start and end of the run (epoch ms).
+   */
+  start: number;
+  end: number;
+  /**
+   * Mean grid intensity over the run (gCO2/kWh).
+   */
+  gridCarbonIntensityGPerKwh: number;
+  energyKwh: number;
+  co2Grams: number;
+  /**
+   * CO2 avoided compared with the baseline (g); negative when worse.
+   */
+  co2SavingsGrams: number;
+  co2SavingsFraction: number;
+  result: ImpactResult;
+}
+
+export interface PlacementRecommendation {
+  baseline: PlacementOption;
+  /**
+   * Feasible options, lowest `co2Grams` first. Ties go to the earlier
+   * start, then to the order of `regions`.
+   */
+  options: PlacementOption[];
+}
+
+/**
+ * Estimates the workload at one region and start. With a resolver the
+ * intensity is averaged over samples `stepMs` apart across the run, so long
+ * jobs are not judged by their first hour alone.
+ */
+function evaluatePlacement(
+  workload: PlacementWorkload,
+  region: RegionInput,
+  start: number,
+  stepMs: number,
+  warn: WarningEmitter,
+): Omit<PlacementOption, "co2SavingsGrams" | "co2SavingsFraction"> {
+  let result = estimateImpactWith(
+    { ...workload, region, timestamp: start },
+    {},
+    warn,
+  );
+  const end = start + result.processingTimeSeconds * 1000;
+
+  const resolver = workload.gridIntensityResolver;
+  if (resolver && end - start > stepMs) {
+    const dataset = getGridIntensityDataset(workload.gridDataset);
+    let sum = 0;
+    let samples = 0;
+    for (let at = start; at < end; at += stepMs) {
+      sum += resolveGridIntensity(
+        { region, gridIntensityResolver: resolver, timestamp: at, dataset },
+        warn,
+      ).value;
+      samples += 1;
+    }
+    const mean = sum / samples;
+    result = estimateImpactWith(
+      {
+        ...workload,
+        region,
+        timestamp: start,
+        gridIntensityResolver: () => mean,
+      },
+      {},
+      warn,
+    );
+  }
+
+  return {
+    region,
+    start,
+    end,
+    gridCarbonIntensityGPerKwh: result.gridCarbonIntensityGPerKwh,
+    energyKwh: result.energyKwh,
+    co2Grams: result.co2Grams,
+    result,
+  };
+}
+
+/**
+ * Ranks region and start-time combinations for a deferrable workload by
+ * projected CO2. Pure and offline: intensities come from the region tables
+ * and the workload's `gridIntensityResolver` (e.g. `createProfileGridResolver`).
+ */
+export function recommendPlacement(
+  workload: PlacementWorkload,
+  options: PlacementOptions,
+): PlacementRecommendation {
+  const [firstRegion] = options.regions;
+  if (firstRegion === undefined) {
+    throw invalid("regions", "required", "regions must not be empty.");
+  }
+  const firstWindow = options.windows[0];
+  if (!firstWindow) {
+    throw invalid("windows", "required", "windows must not be empty.");
+  }
+  const stepMs = options.stepMs ?? DEFAULT_TIME_BUCKET_MS;
+  requirePositive("stepMs", stepMs);
+  if (options.limit !== undefined) {
+    requireInteger("limit", options.limit);
+    requirePositive("limit", options.limit);
+  }
+  options.windows.forEach((window, index) => {
+    if (
+      window.deadline !== undefined &&
+      toEpochMs(window.deadline) < toEpochMs(window.start)
+    ) {
+      throw invalid(
+        `windows[${index}].deadline`,
+        "invalid_range",
+        `windows[${index}].deadline must not be before its start.`,
+      );
+    }
+  });
+
+  // Every candidate repeats the same warnings (e.g. an unknown region);
+  // raise each one once.
+  const warned = new Set<string>();
+  const warnOnce: WarningEmitter = (path, code, message) => {
+    if (warned.has(message)) return;
+    warned.add(message);
+    emitWarning(path, code, message);
+  };
+
+  const baselinePlacement = evaluatePlacement(
+    workload,
+    options.baseline?.region ?? firstRegion,
+    toEpochMs(options.baseline?.start ?? firstWindow.start),
+    stepMs,
+    warnOnce,
+  );
+  const withSavings = (
+    placement: Omit<PlacementOption, "co2SavingsGrams" | "co2SavingsFraction">,
+  ): PlacementOption => {
+    const co2SavingsGrams = baselinePlacement.co2Grams - placement.co2Grams;
+    return {
+      ...placement,
+      co2SavingsGrams,
+      co2SavingsFraction:
+        baselinePlacement.co2Grams > 0
+          ? co2SavingsGrams / baselinePlacement.co2Grams
+          : 0,
+    };
+  };
+
+  const candidates: Array<{ option: PlacementOption; order: number }> = [];
+  const seen = new Set<string>();
+  options.regions.forEach((region, order) => {
+    for (const window of options.windows) {
+      const earliest = toEpochMs(window.start);
+      const deadline =
+        window.deadline === undefined ? earliest : toEpochMs(window.deadline);
+      for (let start = earliest; start <= deadline; start += stepMs) {
+        const key = `${order}@${start}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+        const placement = evaluatePlacement(
+          workload,
+          region,
+          start,
+          stepMs,
+          warnOnce,
+        );
+        if (window.deadline !== undefined && placement.end > deadline) break;
+        candidates.push({ option: withSavings(placement), order });
+      }
+    }
+  });
+
+  const ranked = candidates
+    .sort(
+      (a, b) =>
+        a.option.co2Grams - b.option.co2Grams ||
+        a.option.start - b.option.start ||
+        a.order - b.order,
+    )
+    .map(({ option }) => option);
+
+  return {
+    baseline: withSavings(baselinePlacement),
+    options:
+      options.limit === undefined ? ranked : ranked.slice(0, options.limit),
+  };
+}
+
+/**
+ * Partial `ImpactInputs` applied on top of the baseline. Nested option
+ * groups (efficiency, throughput, ...) are merged; `usage` is replaced.
+ */
+export type ScenarioOverrides = Partial<ImpactInputs>;
+
+export interface ScenarioTrafficEntry extends Partial<ImpactInputs> {
+  /**
+   * Requests of this shape in the mix. Defaults to 1.
+   */
+  count?: number;
+}
+
+export interface ScenarioComparisonOptions extends EstimateOptions {
+  /**
+   * Shared workload or traffic mix. Each entry is applied on top of the
+   * baseline and under the variant overrides. Defaults to a single request
+   * with the baseline inputs.
+   */
+  traffic?: ScenarioTrafficEntry[];
+}
+
+export type ScenarioMetric =
+  "energyKwh" | "co2Grams" | "totalCo2Grams" | "processingTimeSeconds";
+
+export type ScenarioMetrics = Record<ScenarioMetric, number>;
+
+export interface ScenarioMetricDelta {
+  baseline: number;
+  value: number;
+  absolute: number;
+  /**
+   * Change relative to the baseline (%). Undefined when the baseline is 0.
+   */
+  percent?: number;
+}
+
+export interface ScenarioAttribution {
+  /**
+   * Overridden field, with nested options as dotted paths
+   * (e.g. "efficiency.quantization").
+   */
+  field: string;
+  /**
+   * Change caused by this override alone, applied to the baseline.
+   */
+  delta: ScenarioMetrics;
+}
+
+export interface ScenarioResult {
+  name: string;
+  /**
+   * Weighted totals over the traffic mix.
+   */
+  totals: ScenarioMetrics;
+  requests: number;
+  results: ImpactResult[];
+}
+
+export interface ScenarioVariantResult extends ScenarioResult {
+  overrides: ScenarioOverrides;
+  deltas: Record<ScenarioMetric, ScenarioMetricDelta>;
+  attribution: ScenarioAttribution[];
+  /**
+   * Part of the change not explained by any single override, from
+   * overrides that amplify or cancel each other.
+   */
+  interaction: ScenarioMetrics;
+}
+
+export interface ScenarioComparison {
+  baseline: ScenarioResult;
+  variants: ScenarioVariantResult[];
+}
+
+const SCENARIO_METRICS: ScenarioMetric[] = [
+  "energyKwh",
+  "co2Grams",
+  "totalCo2Grams",
+  "processingTimeSeconds",
+];
+
+function isOptionGroup(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !(value instanceof Date)
+  );
+}
+
+function applyOverrides(
+  base: Record<string, unknown>,
+  overrides: Record<string, unknown>,
+): Record<string, unknown> {
+  const merged: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(overrides)) {
+    if (value === undefined) continue;
+    const current = merged[key];
+    merged[key] =
+      key !== "usage" && isOptionGroup(current) && isOptionGroup(value)
+        ? applyOverrides(current, value)
+        : value;
+  }
+  return merged;
+}
+
+/**
+ * Splits overrides into single-field overrides, one per leaf of the nested
+ * option groups, keyed by dotted path.
+ */
+function splitOverrides(
+  overrides: Record<string, unknown>,
+  prefix = "",
+): Array<{ field: string; override: Record<string, unknown> }> {
+  const fields: Array<{ field: string; override: Record<string, unknown> }> =
+    [];
+  for (const [key, value] of Object.entries(overrides)) {
+    if (value === undefined) continue;
+    if (key !== "usage" && isOptionGroup(value)) {
+      for (const nested of splitOverrides(value, `${prefix}${key}.`)) {
+        fields.push({
+          field: nested.field,
+          override: { [key]: nested.override },
+        });
+      }
+    } else {
+      fields.push({ field: `${prefix}${key}`, override: { [key]: value } });
+    }
+  }
+  return fields;
+}
+
+function emptyScenarioMetrics(): ScenarioMetrics {
+  return {
+    energyKwh: 0,
+    co2Grams: 0,
+    totalCo2Grams: 0,
+    processingTimeSeconds: 0,
+  };
+}
+
+function subtractScenarioMetrics(
+  a: ScenarioMetrics,
+  b: ScenarioMetrics,
+): ScenarioMetrics {
+  const difference = emptyScenarioMetrics();
+  for (const metric of SCENARIO_METRICS) {
+    difference[metric] = a[metric] - b[metric];
+  }
+  return difference;
+}
+
+function evaluateScenario(
+  name: string,
+  inputs: Record<string, unknown>,
+  traffic: ScenarioTrafficEntry[],
+  overrides: Record<string, unknown>,
+  options: EstimateOptions,
+): ScenarioResult {
+  const totals = emptyScenarioMetrics();
+  const results: ImpactResult[] = [];
+  let requests = 0;
+  for (const { count = 1, ...entry } of traffic) {
+    const result = estimateImpact(
+      applyOverrides(applyOverrides(inputs, entry), overrides) as ImpactInputs,
+      options,
+    );
+    for (const metric of SCENARIO_METRICS) {
+      totals[metric] += result[metric] * count;
+    }
+    results.push(result);
+    requests += count;
+  }
+  return { name, totals, requests, results };
+}
+
+/**
+ * Evaluates a baseline and named variants over the same traffic mix and
+ * reports deltas per metric. Each overridden field is also applied alone to
+ * the baseline to show how much of the change it causes.
+ */
+export function compareScenarios(
+  baseline: ImpactInputs,
+  variants: Record<string, ScenarioOverrides>,
+  options: ScenarioComparisonOptions = {},
+): ScenarioComparison {
+  const { traffic = [{}], ...estimateOptions } = options;
+  if (traffic.length === 0) {
+    throw invalid("traffic", "required", "traffic must not be empty.");
+  }
+  traffic.forEach((entry, index) => {
+    if (entry.count !== undefined) {
+      requirePositive(`traffic[${index}].count`, entry.count);
+    }
+  });
+
+  const base = baseline as Record<string, unknown>;
+  const baselineResult = evaluateScenario(
+    "baseline",
+    base,
+    traffic,
+    {},
+    estimateOptions,
+  );
+
+  return {
+    baseline: baselineResult,
+    variants: Object.entries(variants).map(
+      ([name, overrides]): ScenarioVariantResult => {
+        const variant = evaluateScenario(
+          name,
+          base,
+          traffic,
+          overrides as Record<string, unknown>,
+          estimateOptions,
+        );
+        const change = subtractScenarioMetrics(
+          variant.totals,
+          baselineResult.totals,
+        );
+
+        const attribution = splitOverrides(
+          overrides as Record<string, unknown>,
+        ).map(({ field, override }): ScenarioAttribution => {
+          const alone = evaluateScenario(
+            field,
+            base,
+            traffic,
+            override,
+            estimateOptions,
+          );
+          return {
+            field,
+            delta: subtractScenarioMetrics(alone.totals, baselineResult.totals),
+          };
+        });
+
+        const interaction = { ...change };
+        for (const { delta } of attribution) {
+          for (const metric of SCENARIO_METRICS) {
+            interaction[metric] -= delta[metric];
+          }
+        }
+
+        const deltas = {} as Record<ScenarioMetric, ScenarioMetricDelta>;
+        for (const metric of SCENARIO_METRICS) {
+          const from = baselineResult.totals[metric];
+          deltas[metric] = {
+            baseline: from,
+            value: variant.totals[metric],
+            absolute: change[metric],
+            percent: from > 0 ? (change[metric] / from) * 100 : undefined,
+          };
+        }
+
+        return { ...variant, overrides, deltas, attribution, interaction };
+      },
+    ),
+  };
+}
+
+/**
+ * Convenience helpers for building usage objects with strict types.
+ */
+export const usage = {
+  chat(
+    inputTokens: number,
+    outputTokens: number,
+    details: ChatUsageDetails = {},
+  ): ChatCompletionUsage {
+    const defined = Object.fromEntries(
+      Object.entries(details).filter(([, value]) => value !== undefined),
+    ) as ChatUsageDetails;
+    return {
+      category: "chat.completions",
+      inputTokens,
+      outputTokens,
+      ...defined,
+    };
+  },
+  text(inputTokens: number, outputTokens: number): TextCompletionUsage {
+    return { category: "text.completions", inputTokens, outputTokens };
+  },
+  embeddings(inputTokens: number): EmbeddingsUsage {
+    return { category: "embeddings", inputTokens };
+  },
+  ocr(inputTokens: number, outputTokens: number): OcrUsage {
+    return { category: "ocr", inputTokens, outputTokens };
+  },
+  audioTranscription(audioSeconds: number): AudioTranscriptionUsage {
+    return { category: "audio.transcription", audioSeconds };
+  },
+  audioTranslation(audioSeconds: number): AudioTranslationUsage {
+    return { category: "audio.translation", audioSeconds };
+  },
+  audioSpeech(audioSeconds: number): AudioSpeechUsage {
+    return { category: "audio.speech", audioSeconds };
+  },
+  imageGeneration(
+    width: number,
+    height: number,
+    images = 1,
+  ): ImageGenerationUsage {
+    return { category: "image.generation", width, height, images };
+  },
+  imageEdit(width: number, height: number, images = 1): ImageEditUsage {
+    return { category: "image.edit", width, height, images };
+  },
+  imageUnderstanding(
+    width: number,
+    height: number,
+    images = 1,
+  ): ImageUnderstandingUsage {
+    return { category: "image.understanding", width, height, images };
+  },
+  videoGeneration(
+    width: number,
+    height: number,
+    fps: number,
+    durationSeconds: number,
+    videos = 1,
+  ): VideoGenerationUsage {
+    return {
+      category: "video.generation",
+      width,
+      height,
+      fps,
+      durationSeconds,
+      videos,
+    };
+  },
+  rerank(documents: number, queries = 1, inputTokens?: number): RerankUsage {
+    return inputTokens === undefined
+      ? { category: "rerank", documents, queries }
+      : { category: "rerank", documents, queries, inputTokens };
+  },
+  moderation(inputTokens: number, images?: number): ModerationUsage {
+    return images === undefined
+      ? { category: "moderation", inputTokens }
+      : { category: "moderation", inputTokens, images };
+  },
+};
 
-  if (usage.category === "image.generation") {
-    requirePositive("width", usage.width);
-    requirePositive("height", usage.height);
-    requirePositive("images", usage.images);
-    const pps = throughput?.pixelsPerSecond;
-    requirePositive("throughput.pixelsPerSecond", pps ?? NaN);
-    const totalPixels = usage.width * usage.height * usage.images;
-    return totalPixels / (pps as number);
-  }
+export type UsageProvider =
+  "openai" | "anthropic" | "gemini" | "mistral" | "bedrock";
 
-  throw new Error("Unsupported usage category.");
+export interface ProviderUsage {
+  provider: UsageProvider;
+  usage: Usage;
+  modelId?: string;
+  responseId?: string;
+  /**
+   * Request latency (ms), from the payload when the provider reports it
+   * or from the adapter options.
+   */
+  latencyMs?: number;
 }
 
-function resolveEnergyKwh(energy?: EnergyInputs): number | null {
-  if (energy?.energyKwh && energy.energyKwh > 0) return energy.energyKwh;
-  if (energy?.energyJoules && energy.energyJoules > 0) {
-    return toKwhFromJoules(energy.energyJoules);
-  }
-  return null;
+export interface ProviderAdapterOptions {
+  /**
+   * Client-measured latency (ms). Overrides any latency found in the payload.
+   */
+  latencyMs?: number;
+
+  /**
+   * Model id, for payloads that do not carry one (e.g. Bedrock Converse).
+   */
+  modelId?: string;
 }
 
-function computeEffectivePowerW(input: ImpactInputs | MinimalImpactInputs): {
-  effectivePowerW: number;
-  notes: string[];
-} {
-  const notes: string[] = [];
-  requirePositive("gpuPowerW", input.gpuPowerW);
+export interface OpenAIAdapterOptions extends ProviderAdapterOptions {
+  /**
+   * Image size for image responses that do not report `size`.
+   */
+  width?: number;
+  height?: number;
 
-  const cpuPowerW = (input as ImpactInputs).cpuPowerW ?? 0;
-  const networkPowerW = (input as ImpactInputs).networkPowerW ?? 0;
+  /**
+   * Audio duration for transcriptions billed by tokens instead of seconds.
+   */
+  audioSeconds?: number;
 
-  if (cpuPowerW) requirePositive("cpuPowerW", cpuPowerW);
-  if (networkPowerW) requirePositive("networkPowerW", networkPowerW);
+  /**
+   * Set for `/audio/translations` responses, which are shaped like transcriptions.
+   */
+  audioCategory?: "audio.transcription" | "audio.translation";
+}
 
-  const basePowerW = input.gpuPowerW + cpuPowerW + networkPowerW;
+type JsonObject = Record<string, unknown>;
 
-  const overheadFactor = clamp(
-    0.1,
-    (input as ImpactInputs).efficiency?.overheadFactor ?? DEFAULT_OVERHEAD,
-    10,
-  );
-  const pue = clamp(
-    1.0,
-    (input as ImpactInputs).efficiency?.pue ?? DEFAULT_PUE,
-    3.0,
-  );
+function asObject(value: unknown): JsonObject | undefined {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+    ? (value as JsonObject)
+    : undefined;
+}
 
-  const effectivePowerW = basePowerW * overheadFactor * pue;
+function readPath(source: unknown, path: string): unknown {
+  return path
+    .split(".")
+    .reduce<unknown>((current, key) => asObject(current)?.[key], source);
+}
 
-  notes.push(`Base power: ${basePowerW.toFixed(2)}W`);
-  notes.push(`Overhead factor: ${overheadFactor.toFixed(2)}`);
-  notes.push(`PUE: ${pue.toFixed(2)}`);
+function readNumber(source: unknown, path: string): number | undefined {
+  const value = readPath(source, path);
+  return typeof value === "number" && Number.isFinite(value)
+    ? value
+    : undefined;
+}
 
-  return { effectivePowerW, notes };
+/**
+ * Optional usage detail such as cached or reasoning tokens; zero counts
+ * are left out of the usage.
+ */
+function readDetail(source: unknown, path: string): number | undefined {
+  const value = readNumber(source, path);
+  return value !== undefined && value > 0 ? value : undefined;
 }
 
-function applyEfficiencyToTime(
-  processingTimeSeconds: number,
-  efficiency?: EfficiencyOptions,
-): number {
-  if (!efficiency?.efficiencyFactor) return processingTimeSeconds;
-  requirePositive("efficiency.efficiencyFactor", efficiency.efficiencyFactor);
-  return processingTimeSeconds / efficiency.efficiencyFactor;
+function readString(source: unknown, path: string): string | undefined {
+  const value = readPath(source, path);
+  return typeof value === "string" && value ? value : undefined;
 }
 
-function applyBatchSize(
-  energyKwh: number,
-  efficiency?: EfficiencyOptions,
-): number {
-  if (!efficiency?.batchSize) return energyKwh;
-  requirePositive("efficiency.batchSize", efficiency.batchSize);
-  return energyKwh / efficiency.batchSize;
+function requireField(label: string, source: unknown, paths: string[]): number {
+  for (const path of paths) {
+    const value = readNumber(source, path);
+    if (value !== undefined) return value;
+  }
+  throw new ProviderResponseError(
+    label,
+    `${label} response is missing ${paths.join(" or ")}.`,
+  );
 }
 
-export function estimateImpact(input: ImpactInputs): ImpactResult {
-  const notes: string[] = [];
+function requirePayload(label: string, response: unknown): JsonObject {
+  const payload = asObject(response);
+  if (!payload) {
+    throw new ProviderResponseError(
+      label,
+      `${label} response must be a JSON object.`,
+    );
+  }
+  return payload;
+}
 
-  const gridIntensity = resolveGridIntensity({
-    region: input.region,
-    gridCarbonIntensityGPerKwh: input.gridCarbonIntensityGPerKwh,
-    gridIntensityResolver: input.gridIntensityResolver,
-    timestamp: input.timestamp,
-  });
+function parseImageSize(
+  size: string | undefined,
+): { width: number; height: number } | undefined {
+  const match = size?.match(/^(\d+)x(\d+)$/);
+  if (!match) return undefined;
+  return { width: Number(match[1]), height: Number(match[2]) };
+}
 
-  const energyOverride = resolveEnergyKwh(input.energy);
-  const { effectivePowerW, notes: powerNotes } = computeEffectivePowerW(input);
-  notes.push(...powerNotes);
+function withMetadata(
+  provider: UsageProvider,
+  usage: Usage,
+  payload: JsonObject,
+  options: ProviderAdapterOptions | undefined,
+  payloadLatencyMs?: number,
+): ProviderUsage {
+  return {
+    provider,
+    usage,
+    modelId: options?.modelId ?? readString(payload, "model"),
+    responseId: readString(payload, "id"),
+    latencyMs: options?.latencyMs ?? payloadLatencyMs,
+  };
+}
 
-  let processingTimeSeconds = 0;
-  let energyKwh = 0;
+/**
+ * Builds `Usage` from an OpenAI chat/text completion, Responses API,
+ * embeddings, audio transcription/translation or image response.
+ * Streaming: pass the final chunk sent with `stream_options.include_usage`,
+ * or the `response.completed` event of the Responses API.
+ */
+export function fromOpenAIResponse(
+  response: unknown,
+  options?: OpenAIAdapterOptions,
+): ProviderUsage {
+  const label = "OpenAI";
+  const payload = requirePayload(label, response);
+  const object = readString(payload, "object");
 
-  if (energyOverride !== null) {
-    energyKwh = energyOverride;
-    notes.push("Energy override provided.");
-    if (typeof input.processingTimeSeconds === "number") {
-      processingTimeSeconds = input.processingTimeSeconds;
-      requirePositive("processingTimeSeconds", processingTimeSeconds);
-      notes.push("Processing time provided alongside energy.");
-    } else if (input.usage?.processingTimeSeconds) {
-      processingTimeSeconds = input.usage.processingTimeSeconds;
-      requirePositive("processingTimeSeconds", processingTimeSeconds);
-      notes.push("Processing time provided in usage alongside energy.");
-    } else {
-      processingTimeSeconds = 0;
-      notes.push("Processing time not provided with energy.");
-    }
-  } else {
-    if (typeof input.processingTimeSeconds === "number") {
-      processingTimeSeconds = input.processingTimeSeconds;
-      requirePositive("processingTimeSeconds", processingTimeSeconds);
-    } else if (input.usage) {
-      processingTimeSeconds = deriveProcessingTimeSeconds(
-        input.usage,
-        input.throughput,
-      );
-    } else {
-      throw new Error(
-        "Either processingTimeSeconds, usage, or energy must be provided.",
+  if (object === "list" && Array.isArray(payload.data)) {
+    const isEmbedding = payload.data.some(
+      (item) => readString(item, "object") === "embedding",
+    );
+    if (isEmbedding) {
+      const inputTokens = requireField(label, payload, ["usage.prompt_tokens"]);
+      return withMetadata(
+        "openai",
+        usage.embeddings(inputTokens),
+        payload,
+        options,
       );
     }
+  }
 
-    processingTimeSeconds = applyEfficiencyToTime(
-      processingTimeSeconds,
-      input.efficiency,
+  if (readPath(payload, "usage.prompt_tokens") !== undefined) {
+    const inputTokens = requireField(label, payload, ["usage.prompt_tokens"]);
+    const outputTokens = requireField(label, payload, [
+      "usage.completion_tokens",
+    ]);
+    const built =
+      object === "text_completion"
+        ? usage.text(inputTokens, outputTokens)
+        : usage.chat(inputTokens, outputTokens, {
+            cachedInputTokens: readDetail(
+              payload,
+              "usage.prompt_tokens_details.cached_tokens",
+            ),
+            reasoningTokens: readDetail(
+              payload,
+              "usage.completion_tokens_details.reasoning_tokens",
+            ),
+          });
+    return withMetadata("openai", built, payload, options);
+  }
+
+  const isCompletedEvent = readString(payload, "type") === "response.completed";
+  if (object === "response" || isCompletedEvent) {
+    const source = isCompletedEvent
+      ? requirePayload(label, payload.response)
+      : payload;
+    const inputTokens = requireField(label, source, ["usage.input_tokens"]);
+    const outputTokens = requireField(label, source, ["usage.output_tokens"]);
+    return withMetadata(
+      "openai",
+      usage.chat(inputTokens, outputTokens, {
+        cachedInputTokens: readDetail(
+          source,
+          "usage.input_tokens_details.cached_tokens",
+        ),
+        reasoningTokens: readDetail(
+          source,
+          "usage.output_tokens_details.reasoning_tokens",
+        ),
+      }),
+      source,
+      options,
     );
+  }
 
-    energyKwh = (effectivePowerW * processingTimeSeconds) / 3600 / 1000;
+  if (typeof payload.text === "string") {
+    const audioSeconds =
+      options?.audioSeconds ??
+      requireField(label, payload, ["usage.seconds", "duration"]);
+    const built =
+      options?.audioCategory === "audio.translation"
+        ? usage.audioTranslation(audioSeconds)
+        : usage.audioTranscription(audioSeconds);
+    return withMetadata("openai", built, payload, options);
   }
 
-  energyKwh = applyBatchSize(energyKwh, input.efficiency);
-  const co2Grams = energyKwh * gridIntensity;
+  if (Array.isArray(payload.data)) {
+    const size = parseImageSize(readString(payload, "size"));
+    const width = options?.width ?? size?.width;
+    const height = options?.height ?? size?.height;
+    if (width === undefined || height === undefined) {
+      throw new ProviderResponseError(
+        label,
+        `${label} response is missing size; pass width and height in options.`,
+      );
+    }
+    return withMetadata(
+      "openai",
+      usage.imageGeneration(width, height, payload.data.length),
+      payload,
+      options,
+    );
+  }
 
-  notes.push(`Grid intensity: ${gridIntensity} gCO2/kWh`);
+  throw new ProviderResponseError(label, `${label} response is missing usage.`);
+}
 
-  if (input.efficiency?.precision) {
-    notes.push(`Precision: ${input.efficiency.precision}`);
-  }
-  if (input.efficiency?.quantization) {
-    notes.push(`Quantization: ${input.efficiency.quantization}`);
+/**
+ * Combines Anthropic stream events: the `message_start` message with the
+ * cumulative usage of the last `message_delta`.
+ */
+function mergeAnthropicStream(label: string, events: unknown[]): JsonObject {
+  const payloads = events.map((event) => requirePayload(label, event));
+  const start = payloads.find(
+    (event) => readString(event, "type") === "message_start",
+  );
+  const deltas = payloads.filter(
+    (event) => readString(event, "type") === "message_delta",
+  );
+  const delta = deltas[deltas.length - 1];
+  if (!start || !delta) {
+    throw new ProviderResponseError(
+      label,
+      `${label} stream must include message_start and message_delta events.`,
+    );
   }
-
+  const message = requirePayload(label, start.message);
   return {
-    category: input.usage?.category,
-    energyKwh,
-    co2Grams,
-    gridCarbonIntensityGPerKwh: gridIntensity,
-    effectivePowerW,
-    processingTimeSeconds,
-    notes,
+    ...message,
+    usage: { ...asObject(message.usage), ...asObject(delta.usage) },
   };
 }
 
 /**
- * Minimal mode helper: a lightweight entry-point for coarse estimates.
+ * Builds `Usage` from an Anthropic Messages API response (or the final
+ * message of a stream), or from the list of stream events. A lone
+ * `message_start` event is rejected: its `output_tokens` is a placeholder.
  */
-export function estimateImpactMinimal(
-  input: MinimalImpactInputs,
-): ImpactResult {
-  return estimateImpact({
-    gpuPowerW: input.gpuPowerW,
-    processingTimeSeconds: input.processingTimeSeconds,
-    region: input.region,
-    gridCarbonIntensityGPerKwh: input.gridCarbonIntensityGPerKwh,
-    efficiency: input.efficiency,
-    energy: input.energy,
-    timestamp: input.timestamp,
-    gridIntensityResolver: input.gridIntensityResolver,
-  });
-}
-
-function validateRange(name: string, range?: NumericRange): void {
-  if (!range) return;
-  requirePositive(`${name}.min`, range.min);
-  requirePositive(`${name}.max`, range.max);
-  if (range.max < range.min) {
-    throw new Error(`${name}.max must be >= ${name}.min.`);
+export function fromAnthropicMessage(
+  response: unknown,
+  options?: ProviderAdapterOptions,
+): ProviderUsage {
+  const label = "Anthropic";
+  const message = Array.isArray(response)
+    ? mergeAnthropicStream(label, response)
+    : requirePayload(label, response);
+  if (readString(message, "type") === "message_start") {
+    throw new ProviderResponseError(
+      label,
+      `${label} message_start has no final output_tokens; pass the final message or all stream events.`,
+    );
   }
-}
 
-function pickRangeValue(
-  value: number | undefined,
-  range: NumericRange | undefined,
-  pick: "min" | "max",
-): number | undefined {
-  if (!range) return value;
-  return pick === "min" ? range.min : range.max;
+  const inputTokens =
+    requireField(label, message, ["usage.input_tokens"]) +
+    (readNumber(message, "usage.cache_creation_input_tokens") ?? 0) +
+    (readNumber(message, "usage.cache_read_input_tokens") ?? 0);
+  const outputTokens = requireField(label, message, ["usage.output_tokens"]);
+
+  return withMetadata(
+    "anthropic",
+    usage.chat(inputTokens, outputTokens, {
+      cachedInputTokens: readDetail(message, "usage.cache_read_input_tokens"),
+    }),
+    message,
+    options,
+  );
 }
 
-function buildInputWithRanges(
-  input: ImpactInputs,
-  ranges: UncertaintyRanges,
-  pick: "min" | "max",
-): ImpactInputs {
-  const needsThroughput =
-    ranges.tokensPerSecond ||
-    ranges.audioSecondsPerSecond ||
-    ranges.pixelsPerSecond;
-  const needsEfficiency =
-    ranges.pue || ranges.overheadFactor || ranges.efficiencyFactor;
+/**
+ * Builds `Usage` from a Gemini `generateContent` response or the last chunk
+ * of `streamGenerateContent`.
+ */
+export function fromGeminiResponse(
+  response: unknown,
+  options?: ProviderAdapterOptions,
+): ProviderUsage {
+  const label = "Gemini";
+  const payload = requirePayload(label, response);
 
-  const throughput = input.throughput || (needsThroughput ? {} : undefined);
-  const efficiency = input.efficiency || (needsEfficiency ? {} : undefined);
+  const inputTokens = requireField(label, payload, [
+    "usageMetadata.promptTokenCount",
+  ]);
+  const outputTokens =
+    requireField(label, payload, ["usageMetadata.candidatesTokenCount"]) +
+    (readNumber(payload, "usageMetadata.thoughtsTokenCount") ?? 0);
 
   return {
-    ...input,
-    gpuPowerW: pickRangeValue(
-      input.gpuPowerW,
-      ranges.gpuPowerW,
-      pick,
-    ) as number,
-    throughput: throughput
-      ? {
-          ...throughput,
-          tokensPerSecond: pickRangeValue(
-            throughput.tokensPerSecond,
-            ranges.tokensPerSecond,
-            pick,
-          ),
-          audioSecondsPerSecond: pickRangeValue(
-            throughput.audioSecondsPerSecond,
-            ranges.audioSecondsPerSecond,
-            pick,
-          ),
-          pixelsPerSecond: pickRangeValue(
-            throughput.pixelsPerSecond,
-            ranges.pixelsPerSecond,
-            pick,
-          ),
-        }
-      : undefined,
-    efficiency: efficiency
-      ? {
-          ...efficiency,
-          pue: pickRangeValue(efficiency.pue, ranges.pue, pick),
-          overheadFactor: pickRangeValue(
-            efficiency.overheadFactor,
-            ranges.overheadFactor,
-            pick,
-          ),
-          efficiencyFactor: pickRangeValue(
-            efficiency.efficiencyFactor,
-            ranges.efficiencyFactor,
-            pick,
-          ),
-        }
-      : undefined,
+    provider: "gemini",
+    usage: usage.chat(inputTokens, outputTokens, {
+      cachedInputTokens: readDetail(
+        payload,
+        "usageMetadata.cachedContentTokenCount",
+      ),
+      reasoningTokens: readDetail(payload, "usageMetadata.thoughtsTokenCount"),
+    }),
+    modelId: options?.modelId ?? readString(payload, "modelVersion"),
+    responseId: readString(payload, "responseId"),
+    latencyMs: options?.latencyMs,
   };
 }
 
-export function aggregateImpacts(
-  results: ImpactResult[],
-): AggregateImpactResult {
-  return results.reduce(
-    (acc, result) => ({
-      count: acc.count + 1,
-      energyKwh: acc.energyKwh + result.energyKwh,
-      co2Grams: acc.co2Grams + result.co2Grams,
-    }),
-    { count: 0, energyKwh: 0, co2Grams: 0 },
-  );
-}
+/**
+ * Builds `Usage` from a Mistral chat completion, streaming final chunk
+ * or embeddings response.
+ */
+export function fromMistralResponse(
+  response: unknown,
+  options?: ProviderAdapterOptions,
+): ProviderUsage {
+  const label = "Mistral";
+  const payload = requirePayload(label, response);
 
-export function estimateImpactRange(
-  input: ImpactInputs,
-  ranges: UncertaintyRanges,
-): ImpactRangeResult {
-  validateRange("gpuPowerW", ranges.gpuPowerW);
-  validateRange("pue", ranges.pue);
-  validateRange("overheadFactor", ranges.overheadFactor);
-  validateRange("efficiencyFactor", ranges.efficiencyFactor);
-  validateRange("tokensPerSecond", ranges.tokensPerSecond);
-  validateRange("audioSecondsPerSecond", ranges.audioSecondsPerSecond);
-  validateRange("pixelsPerSecond", ranges.pixelsPerSecond);
+  const inputTokens = requireField(label, payload, ["usage.prompt_tokens"]);
 
-  const base = estimateImpact(input);
+  if (readString(payload, "object") === "list") {
+    return withMetadata(
+      "mistral",
+      usage.embeddings(inputTokens),
+      payload,
+      options,
+    );
+  }
 
-  const hasEnergyOverride =
-    !!input.energy?.energyKwh || !!input.energy?.energyJoules;
+  const outputTokens = requireField(label, payload, [
+    "usage.completion_tokens",
+  ]);
+  return withMetadata(
+    "mistral",
+    usage.chat(inputTokens, outputTokens),
+    payload,
+    options,
+  );
+}
 
-  if (hasEnergyOverride) {
+/**
+ * Builds `Usage` from a Bedrock Converse response, the `metadata` event of
+ * ConverseStream, or a Titan embeddings InvokeModel body.
+ */
+export function fromBedrockResponse(
+  response: unknown,
+  options?: ProviderAdapterOptions,
+): ProviderUsage {
+  const label = "Bedrock";
+  const payload = requirePayload(label, response);
+  const source = asObject(payload.metadata) ?? payload;
+
+  if (readNumber(source, "inputTextTokenCount") !== undefined) {
     return {
-      base,
-      energyKwhMin: base.energyKwh,
-      energyKwhMax: base.energyKwh,
-      co2GramsMin: base.co2Grams,
-      co2GramsMax: base.co2Grams,
+      provider: "bedrock",
+      usage: usage.embeddings(
+        requireField(label, source, ["inputTextTokenCount"]),
+      ),
+      modelId: options?.modelId,
+      latencyMs: options?.latencyMs,
     };
   }
 
-  const lowInput = buildInputWithRanges(input, ranges, "min");
-  const highInput = buildInputWithRanges(input, ranges, "max");
-
-  const low = estimateImpact(lowInput);
-  const high = estimateImpact(highInput);
+  const inputTokens = requireField(label, source, ["usage.inputTokens"]);
+  const outputTokens = requireField(label, source, ["usage.outputTokens"]);
 
   return {
-    base,
-    energyKwhMin: Math.min(low.energyKwh, high.energyKwh),
-    energyKwhMax: Math.max(low.energyKwh, high.energyKwh),
-    co2GramsMin: Math.min(low.co2Grams, high.co2Grams),
-    co2GramsMax: Math.max(low.co2Grams, high.co2Grams),
+    provider: "bedrock",
+    usage: usage.chat(inputTokens, outputTokens),
+    modelId: options?.modelId,
+    latencyMs: options?.latencyMs ?? readNumber(source, "metrics.latencyMs"),
   };
 }
 
-/**
- * Convenience helpers for building usage objects with strict types.
- */
-export const usage = {
-  chat(inputTokens: number, outputTokens: number): ChatCompletionUsage {
-    return { category: "chat.completions", inputTokens, outputTokens };
-  },
-  text(inputTokens: number, outputTokens: number): TextCompletionUsage {
-    return { category: "text.completions", inputTokens, outputTokens };
-  },
-  embeddings(inputTokens: number): EmbeddingsUsage {
-    return { category: "embeddings", inputTokens };
-  },
-  ocr(inputTokens: number, outputTokens: number): OcrUsage {
-    return { category: "ocr", inputTokens, outputTokens };
-  },
-  audioTranscription(audioSeconds: number): AudioTranscriptionUsage {
-    return { category: "audio.transcription", audioSeconds };
-  },
-  audioTranslation(audioSeconds: number): AudioTranslationUsage {
-    return { category: "audio.translation", audioSeconds };
-  },
-  audioSpeech(audioSeconds: number): AudioSpeechUsage {
-    return { category: "audio.speech", audioSeconds };
-  },
-  imageGeneration(
-    width: number,
-    height: number,
-    images = 1,
-  ): ImageGenerationUsage {
-    return { category: "image.generation", width, height, images };
-  },
-};
-
 export type { ImpactInputs as EstimateImpactInputs };
@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import {
+  ImpactValidationError,
+  aggregateImpacts,
+  estimateImpact,
+  type ImpactInputs,
+} from "./index";
+
+const input: ImpactInputs = {
+  gpuPowerW: 300,
+  processingTimeSeconds: 60,
+  gridCarbonIntensityGPerKwh: 400,
+};
+
+describe("market-based accounting", () => {
+  it("equals the location-based value without market inputs", () => {
+    const result = estimateImpact(input);
+    expect(result.co2GramsMarketBased).toBe(result.co2GramsLocationBased);
+    expect(result.co2Grams).toBe(result.co2GramsLocationBased);
+  });
+
+  it("uses instrument factors for covered energy and the supplier factor for the rest", () => {
+    const result = estimateImpact({
+      ...input,
+      marketBased: {
+        instruments: [
+          { type: "ppa", coverage: 0.5 },
+          { type: "rec", coverage: 0.25, emissionFactorGPerKwh: 20 },
+        ],
+        supplierFactorGPerKwh: 200,
+        residualMixGPerKwh: 500,
+      },
+    });
+    expect(result.co2GramsMarketBased).toBeCloseTo(
+      result.energyKwh * (0.25 * 20 + 0.25 * 200),
+      12,
+    );
+    expect(result.co2Grams).toBeCloseTo(result.energyKwh * 400, 12);
+  });
+
+  it("falls back to the residual mix, then the location intensity", () => {
+    const residual = estimateImpact({
+      ...input,
+      marketBased: { residualMixGPerKwh: 500 },
+    });
+    expect(residual.co2GramsMarketBased).toBeCloseTo(
+      residual.energyKwh * 500,
+      12,
+    );
+    const partial = estimateImpact({
+      ...input,
+      marketBased: { instruments: [{ type: "go", coverage: 0.7 }] },
+    });
+    expect(partial.co2GramsMarketBased).toBeCloseTo(
+      partial.energyKwh * 0.3 * 400,
+      12,
+    );
+  });
+
+  it("rejects instruments covering more than the energy", () => {
+    const fullCoverage = estimateImpact({
+      ...input,
+      marketBased: {
+        instruments: [0.7, 0.2, 0.1].map((coverage) => ({
+          type: "rec" as const,
+          coverage,
+        })),
+      },
+    });
+    expect(fullCoverage.co2GramsMarketBased).toBeCloseTo(0, 12);
+    expect(() =>
+      estimateImpact({
+        ...input,
+        marketBased: {
+          instruments: [
+            { type: "rec", coverage: 0.6 },
+            { type: "ppa", coverage: 0.6 },
+          ],
+        },
+      }),
+    ).toThrow(ImpactValidationError);
+  });
+
+  it("sums market-based emissions in aggregates", () => {
+    const results = [
+      estimateImpact(input),
+      estimateImpact({ ...input, marketBased: { supplierFactorGPerKwh: 100 } }),
+    ];
+    expect(aggregateImpacts(results).co2GramsMarketBased).toBeCloseTo(
+      results[0]!.co2GramsMarketBased + results[1]!.co2GramsMarketBased,
+      12,
+    );
+  });
+});
@@ -0,0 +1,93 @@
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  ImpactValidationError,
+  createProfileGridResolver,
+  recommendPlacement,
+  setWarningSink,
+  usage,
+  type PlacementWorkload,
+} from "./index";
+
+const HOUR = 3_600_000;
+const start = Date.UTC(2025, 5, 1);
+const workload: PlacementWorkload = {
+  gpuPowerW: 400,
+  usage: usage.embeddings(360_000),
+  throughput: { tokensPerSecond: 100 },
+};
+// Cleanest at 02:00 and 03:00 UTC.
+const resolver = createProfileGridResolver([
+  {
+    region: "de",
+    kind: "hourly",
+    values: Array.from({ length: 24 }, (_, hour) =>
+      hour === 2 || hour === 3 ? 100 : 400,
+    ),
+  },
+]);
+
+afterEach(() => setWarningSink());
+
+describe("recommendPlacement", () => {
+  it("ranks regions by projected CO2", () => {
+    const { baseline, options } = recommendPlacement(workload, {
+      regions: ["pl", "fr"],
+      windows: [{ start }],
+    });
+    expect(options.map((option) => option.region)).toEqual(["fr", "pl"]);
+    expect(baseline.region).toBe("pl");
+    expect(options[0]?.co2SavingsFraction).toBeGreaterThan(0);
+    expect(options[1]?.co2SavingsGrams).toBe(0);
+  });
+
+  it("picks the cleanest start that finishes by the deadline", () => {
+    const { options } = recommendPlacement(
+      { ...workload, gridIntensityResolver: resolver },
+      {
+        regions: ["de"],
+        windows: [{ start, deadline: start + 6 * HOUR }],
+      },
+    );
+    // The one-hour job fits in starts 00:00 to 05:00.
+    expect(options).toHaveLength(6);
+    expect(options[0]).toMatchObject({
+      start: start + 2 * HOUR,
+      end: start + 3 * HOUR,
+      gridCarbonIntensityGPerKwh: 100,
+    });
+  });
+
+  it("averages the intensity over runs longer than a step", () => {
+    const { options } = recommendPlacement(
+      {
+        ...workload,
+        usage: usage.embeddings(720_000),
+        gridIntensityResolver: resolver,
+      },
+      { regions: ["de"], windows: [{ start: start + HOUR }] },
+    );
+    expect(options[0]?.gridCarbonIntensityGPerKwh).toBe(250);
+  });
+
+  it("rejects empty regions and windows", () => {
+    expect(() =>
+      recommendPlacement(workload, { regions: [], windows: [{ start }] }),
+    ).toThrow(ImpactValidationError);
+    expect(() =>
+      recommendPlacement(workload, { regions: ["fr"], windows: [] }),
+    ).toThrow(ImpactValidationError);
+  });
+
+  it("warns once about an unknown region", () => {
+    const warnings: string[] = [];
+    setWarningSink((warning) => warnings.push(warning.code));
+    recommendPlacement(
+      { ...workload, gridIntensityResolver: resolver },
+      {
+        regions: ["atlantis", "fr"],
+        windows: [{ start, deadline: start + 6 * HOUR }],
+      },
+    );
+    expect(warnings).toEqual(["unknown_region"]);
+  });
+});
@@ -0,0 +1,121 @@
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  ImpactValidationError,
+  estimateImpact,
+  estimateImpactRange,
+  getHardwareProfile,
+  setWarningSink,
+  type ImpactInputs,
+} from "./index";
+
+const base: ImpactInputs = { processingTimeSeconds: 3600, region: "fr" };
+
+function issuePaths(run: () => unknown): string[] {
+  try {
+    run();
+  } catch (error) {
+    if (error instanceof ImpactValidationError) {
+      return error.issues.map((issue) => issue.path);
+    }
+    throw error;
+  }
+  return [];
+}
+
+afterEach(() => setWarningSink());
+
+describe("power model", () => {
+  it("adds devices, host power and the node idle share before overhead", () => {
+    const result = estimateImpact({
+      ...base,
+      gpuPowerW: 300,
+      cpuPowerW: 50,
+      networkPowerW: 10,
+      powerModel: { deviceCount: 4, nodeIdlePowerW: 200, nodeIdleShare: 0.25 },
+      efficiency: { overheadFactor: 1.1, pue: 1.2 },
+    });
+    expect(result.powerBreakdown).toMatchObject({
+      devicePowerW: 1200,
+      nodeIdlePowerW: 50,
+      basePowerW: 1310,
+    });
+    expect(result.effectivePowerW).toBeCloseTo(1310 * 1.1 * 1.2);
+    expect(result.energyKwh).toBeCloseTo(1.7292);
+  });
+
+  it("interpolates power between idle and TDP along the curve", () => {
+    const result = estimateImpact({
+      ...base,
+      powerModel: {
+        utilization: 0.5,
+        idlePowerW: 100,
+        tdpW: 700,
+        utilizationCurve: [
+          { utilization: 1, powerFraction: 1 },
+          { utilization: 0, powerFraction: 0 },
+          { utilization: 0.4, powerFraction: 0.6 },
+        ],
+      },
+    });
+    expect(result.powerBreakdown.perDevicePowerW).toBeCloseTo(500);
+    expect(result.powerBreakdown.utilization).toBe(0.5);
+  });
+
+  it("names the invalid curve point by its position in the input", () => {
+    expect(
+      issuePaths(() =>
+        estimateImpact({
+          ...base,
+          powerModel: {
+            utilization: 0.5,
+            idlePowerW: 100,
+            tdpW: 700,
+            utilizationCurve: [
+              { utilization: 0.9, powerFraction: 1 },
+              { utilization: 1.5, powerFraction: 0 },
+              { utilization: 0.1, powerFraction: 0.2 },
+            ],
+          },
+        }),
+      ),
+    ).toEqual(["powerModel.utilizationCurve[1].utilization"]);
+  });
+
+  it("takes idle and TDP from the hardware profile", () => {
+    const idle = estimateImpact({
+      ...base,
+      hardware: "h100-sxm",
+      powerModel: { utilization: 0 },
+    });
+    expect(idle.powerBreakdown.perDevicePowerW).toBe(
+      getHardwareProfile("h100-sxm")?.idlePowerW,
+    );
+  });
+
+  it("flags utilization settings that gpuPowerW overrides", () => {
+    const warnings: string[] = [];
+    setWarningSink((warning) => warnings.push(warning.path));
+    const input = {
+      ...base,
+      gpuPowerW: 300,
+      powerModel: { utilization: 0.5, tdpW: 700 },
+    };
+    expect(estimateImpact(input).powerBreakdown.perDevicePowerW).toBe(300);
+    expect(warnings).toEqual(["powerModel.utilization", "powerModel.tdpW"]);
+    expect(issuePaths(() => estimateImpact(input, { strict: true }))).toEqual([
+      "powerModel.utilization",
+      "powerModel.tdpW",
+    ]);
+  });
+
+  it("accepts utilization ranges starting at idle", () => {
+    const range = estimateImpactRange(
+      { ...base, hardware: "h100-sxm", powerModel: { utilization: 0.5 } },
+      { utilization: { min: 0, max: 1 } },
+    );
+    expect(range.energyKwhMin).toBeCloseTo(
+      getHardwareProfile("h100-sxm")!.idlePowerW / 1000,
+    );
+    expect(range.energyKwhMax).toBeGreaterThan(range.base.energyKwh);
+  });
+});
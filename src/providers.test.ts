@@ -0,0 +1,161 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import {
+  ProviderResponseError,
+  estimateImpact,
+  fromAnthropicMessage,
+  fromBedrockResponse,
+  fromGeminiResponse,
+  fromMistralResponse,
+  fromOpenAIResponse,
+  usage,
+} from "./index";
+
+function fixture(name: string): unknown {
+  return JSON.parse(
+    readFileSync(
+      new URL(`./__fixtures__/providers/${name}.json`, import.meta.url),
+      "utf8",
+    ),
+  );
+}
+
+describe("fromOpenAIResponse", () => {
+  it("reads chat completions with cached tokens", () => {
+    expect(fromOpenAIResponse(fixture("openai-chat-completion"))).toEqual({
+      provider: "openai",
+      usage: usage.chat(1819, 104, { cachedInputTokens: 1536 }),
+      modelId: "gpt-4o-2024-08-06",
+      responseId: "chatcmpl-B9MBs8CjcvOU2jLn4n570S5qMJKcT",
+    });
+  });
+
+  it("reads the final stream chunk with reasoning tokens", () => {
+    const { usage: built } = fromOpenAIResponse(
+      fixture("openai-chat-stream-final-chunk"),
+      { latencyMs: 5400 },
+    );
+    expect(built).toEqual(usage.chat(75, 1186, { reasoningTokens: 1024 }));
+  });
+
+  it("accepts tool-call turns without output tokens", () => {
+    const { usage: built } = fromOpenAIResponse(
+      fixture("openai-chat-tool-call"),
+    );
+    expect(built).toEqual(usage.chat(342, 0));
+    const result = estimateImpact({
+      gpuPowerW: 300,
+      region: "fr",
+      usage: built,
+      throughput: { tokensPerSecond: 100 },
+    });
+    expect(result.processingTimeSeconds).toBeCloseTo(3.42);
+  });
+
+  it("reads Responses API objects and completed events", () => {
+    expect(fromOpenAIResponse(fixture("openai-response")).usage).toEqual(
+      usage.chat(36, 87),
+    );
+    expect(
+      fromOpenAIResponse(fixture("openai-response-completed-event")),
+    ).toEqual({
+      provider: "openai",
+      usage: usage.chat(2048, 900, {
+        cachedInputTokens: 1024,
+        reasoningTokens: 640,
+      }),
+      modelId: "o4-mini-2025-04-16",
+      responseId: "resp_68a1f3c2e0d88193a7f0b1d2c3e4f5a60b1c2d3e4f5a6b7c",
+    });
+  });
+
+  it("reads embeddings", () => {
+    expect(fromOpenAIResponse(fixture("openai-embeddings")).usage).toEqual(
+      usage.embeddings(8),
+    );
+  });
+
+  it("names the missing field", () => {
+    expect(() => fromOpenAIResponse({ object: "chat.completion" })).toThrow(
+      ProviderResponseError,
+    );
+    expect(() => fromOpenAIResponse({ usage: { prompt_tokens: 10 } })).toThrow(
+      "OpenAI response is missing usage.completion_tokens.",
+    );
+  });
+});
+
+describe("fromAnthropicMessage", () => {
+  it("counts cache creation and reads as input", () => {
+    expect(fromAnthropicMessage(fixture("anthropic-message"))).toEqual({
+      provider: "anthropic",
+      usage: usage.chat(2009, 393, { cachedInputTokens: 1800 }),
+      modelId: "claude-sonnet-4-20250514",
+      responseId: "msg_01XFDUDYJgAACzvnptvVoYEL",
+    });
+  });
+
+  it("combines stream events into the final usage", () => {
+    const parsed = fromAnthropicMessage(fixture("anthropic-stream-events"));
+    expect(parsed.usage).toEqual(usage.chat(472, 15));
+    expect(parsed.modelId).toBe("claude-3-5-haiku-20241022");
+  });
+
+  it("rejects a lone message_start event", () => {
+    expect(() =>
+      fromAnthropicMessage(fixture("anthropic-message-start")),
+    ).toThrow(ProviderResponseError);
+    expect(() =>
+      fromAnthropicMessage([fixture("anthropic-message-start")]),
+    ).toThrow("stream must include message_start and message_delta events");
+  });
+
+  it("names the missing field", () => {
+    expect(() => fromAnthropicMessage({ usage: { output_tokens: 3 } })).toThrow(
+      "Anthropic response is missing usage.input_tokens.",
+    );
+  });
+});
+
+describe("fromGeminiResponse", () => {
+  it("counts thinking tokens as output and reasoning", () => {
+    expect(fromGeminiResponse(fixture("gemini-generate-content"))).toEqual({
+      provider: "gemini",
+      usage: usage.chat(1210, 343, {
+        cachedInputTokens: 1024,
+        reasoningTokens: 332,
+      }),
+      modelId: "gemini-2.5-flash",
+      responseId: "Nd-7aPKrH7vbz7IPz-DdiAk",
+    });
+  });
+});
+
+describe("fromMistralResponse", () => {
+  it("reads chat completions and embeddings", () => {
+    expect(fromMistralResponse(fixture("mistral-chat-completion"))).toEqual({
+      provider: "mistral",
+      usage: usage.chat(10, 343),
+      modelId: "mistral-large-latest",
+      responseId: "cf79f7daaee244b1a0ae5c7b1444424a",
+    });
+    expect(fromMistralResponse(fixture("mistral-embeddings")).usage).toEqual(
+      usage.embeddings(15),
+    );
+  });
+});
+
+describe("fromBedrockResponse", () => {
+  it("reads Converse usage and latency", () => {
+    expect(
+      fromBedrockResponse(fixture("bedrock-converse"), {
+        modelId: "anthropic.claude-3-haiku-20240307-v1:0",
+      }),
+    ).toEqual({
+      provider: "bedrock",
+      usage: usage.chat(125, 60),
+      modelId: "anthropic.claude-3-haiku-20240307-v1:0",
+      latencyMs: 1175,
+    });
+  });
+});
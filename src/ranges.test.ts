@@ -0,0 +1,67 @@
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  ImpactValidationError,
+  aggregateImpactRanges,
+  estimateImpactDistribution,
+  estimateImpactRange,
+  setWarningSink,
+  usage,
+  type ImpactInputs,
+  type ValidationIssue,
+} from "./index";
+
+const input: ImpactInputs = {
+  gpuPowerW: 300,
+  region: "fr",
+  usage: usage.chat(1000, 200),
+  throughput: { tokensPerSecond: 100 },
+};
+const ranged = estimateImpactRange(input, { pue: { min: 1.1, max: 1.3 } });
+const sampled = estimateImpactDistribution(
+  input,
+  { pue: { type: "uniform", min: 1.1, max: 1.3 } },
+  { samples: 500 },
+);
+
+describe("aggregateImpactRanges", () => {
+  it("combines independent corner bounds in quadrature", () => {
+    const total = aggregateImpactRanges([ranged, ranged], {
+      interval: "independent",
+    });
+    const upper = ranged.co2GramsMax - ranged.base.co2Grams;
+    expect(total.co2GramsMax - total.base.co2Grams).toBeCloseTo(
+      Math.SQRT2 * upper,
+    );
+    expect(total.notes).toEqual([]);
+  });
+
+  it("adds corner bounds and p5-p95 intervals linearly", () => {
+    const mixed = aggregateImpactRanges([ranged, sampled], {
+      interval: "independent",
+    });
+    expect(mixed.co2GramsMax - mixed.base.co2Grams).toBeCloseTo(
+      ranged.co2GramsMax -
+        ranged.base.co2Grams +
+        (sampled.co2Grams.p95 - sampled.base.co2Grams),
+    );
+    expect(mixed.notes).toHaveLength(1);
+    expect(mixed.notes[0]).toContain("no single coverage level");
+  });
+});
+
+describe("estimateImpactRange", () => {
+  afterEach(() => setWarningSink());
+
+  it("applies strict mode to the range corners", () => {
+    const warnings: ValidationIssue[] = [];
+    setWarningSink((warning) => warnings.push(warning));
+    const ranges = { pue: { min: 0.9, max: 1.2 } };
+    expect(() => estimateImpactRange(input, ranges)).not.toThrow();
+    expect(warnings).toContainEqual(
+      expect.objectContaining({ path: "efficiency.pue", code: "clamped" }),
+    );
+    expect(() => estimateImpactRange(input, ranges, { strict: true })).toThrow(
+      ImpactValidationError,
+    );
+  });
+});
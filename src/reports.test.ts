@@ -0,0 +1,118 @@
+import { describe, expect, it } from "vitest";
+import {
+  aggregateImpacts,
+  aggregateImpactsBy,
+  buildGhgReport,
+  estimateImpact,
+  formatGhgReportMarkdown,
+  formatImpactCsv,
+  formatImpactJson,
+  formatImpactMarkdown,
+  registerGridIntensityDataset,
+  usage,
+  type ImpactInputs,
+} from "./index";
+
+registerGridIntensityDataset({
+  metadata: {
+    id: "reports-test-2020",
+    year: 2020,
+    unit: "gCO2/kWh",
+    source: "Report test fixture",
+  },
+  values: { global: 500, de: 400, fr: 60 },
+});
+
+const base: ImpactInputs = {
+  gpuPowerW: 400,
+  usage: usage.chat(1000, 200),
+  throughput: { tokensPerSecond: 100 },
+  gridDataset: "reports-test-2020",
+};
+const results = [
+  estimateImpact({ ...base, region: "de" }),
+  estimateImpact({ ...base, region: "fr", efficiency: { pue: 1.3 } }),
+];
+
+describe("report formats", () => {
+  it("writes CSV with the default result columns", () => {
+    expect(formatImpactCsv(results)).toMatchSnapshot();
+  });
+
+  it("quotes CSV cells that contain separators", () => {
+    const csv = formatImpactCsv(
+      aggregateImpactsBy(
+        results.map((result) => ({ result, tags: { team: "search, ads" } })),
+        { groupBy: "tag:team" },
+      ),
+    );
+    expect(csv.split("\n")[1]).toMatch(/^"search, ads",2,/);
+  });
+
+  it("writes grouped Markdown tables", () => {
+    const grouped = aggregateImpactsBy(
+      results.map((result, i) => ({
+        result,
+        usage: base.usage,
+        region: i === 0 ? "de" : "fr",
+      })),
+      { groupBy: "region" },
+    );
+    expect(formatImpactMarkdown(grouped, { precision: 3 })).toMatchSnapshot();
+  });
+
+  it("serializes equal data to equal JSON regardless of key order", () => {
+    const [result] = results;
+    const reordered = Object.fromEntries(
+      Object.entries(result!).reverse(),
+    ) as typeof result;
+    expect(formatImpactJson([reordered!])).toBe(formatImpactJson([result!]));
+    expect(formatImpactJson(aggregateImpacts(results))).toMatchSnapshot();
+  });
+});
+
+describe("buildGhgReport", () => {
+  it("classifies purchased inference as Scope 3 and owned as Scope 2", () => {
+    const purchased = buildGhgReport(results);
+    const owned = buildGhgReport(results, { boundary: "owned" });
+    expect(purchased.scopes.map((entry) => entry.scope)).toEqual([
+      "scope3",
+      "scope3",
+      "scope3",
+    ]);
+    expect(owned.scopes.map((entry) => entry.scope)).toEqual([
+      "scope2",
+      "scope2",
+      "scope3",
+    ]);
+    expect(owned.locationBasedCo2Kg).toBeCloseTo(
+      (results[0]!.co2Grams + results[1]!.co2Grams) / 1000,
+    );
+  });
+
+  it("lists the datasets an aggregate was built from, not the default", () => {
+    const aggregate = aggregateImpacts(results);
+    const report = buildGhgReport(aggregate);
+    expect(report.gridDatasets.map((dataset) => dataset.id)).toEqual([
+      "reports-test-2020",
+    ]);
+    expect(report.gridDatasets[0]?.year).toBe(2020);
+  });
+
+  it("reports the PUE range of large result sets", () => {
+    const many = Array.from({ length: 300_000 }, (_, i) => results[i % 2]!);
+    const report = buildGhgReport(many);
+    expect(report.requestCount).toBe(300_000);
+    expect(report.assumptions).toContain(
+      `PUE ranged from ${results[0]!.powerBreakdown.pue} to 1.3.`,
+    );
+  });
+
+  it("renders a stable Markdown summary", () => {
+    const report = buildGhgReport(results, {
+      organization: "Acme",
+      period: { start: "2025-01-01", end: "2025-03-31" },
+    });
+    expect(formatGhgReportMarkdown(report)).toMatchSnapshot();
+  });
+});
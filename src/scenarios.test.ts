@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import {
+  ImpactValidationError,
+  compareScenarios,
+  estimateImpact,
+  usage,
+  type ImpactInputs,
+} from "./index";
+
+const baseline: ImpactInputs = {
+  gpuPowerW: 400,
+  region: "de",
+  usage: usage.chat(1000, 200),
+  throughput: { tokensPerSecond: 100 },
+  efficiency: { pue: 1.2 },
+};
+
+describe("compareScenarios", () => {
+  it("reports absolute and relative deltas against the baseline", () => {
+    const { baseline: base, variants } = compareScenarios(baseline, {
+      greener: { region: "se" },
+    });
+    const [greener] = variants;
+    const expected = estimateImpact({ ...baseline, region: "se" });
+    expect(greener?.name).toBe("greener");
+    expect(greener?.deltas.co2Grams).toEqual({
+      baseline: base.totals.co2Grams,
+      value: expected.co2Grams,
+      absolute: expected.co2Grams - base.totals.co2Grams,
+      percent:
+        ((expected.co2Grams - base.totals.co2Grams) / base.totals.co2Grams) *
+        100,
+    });
+    expect(greener?.deltas.energyKwh.absolute).toBeCloseTo(0, 12);
+  });
+
+  it("merges nested overrides and weights the traffic mix", () => {
+    const { baseline: base, variants } = compareScenarios(
+      baseline,
+      { efficient: { efficiency: { batchSize: 4 } } },
+      {
+        traffic: [{ count: 3 }, { usage: usage.chat(4000, 800), count: 1 }],
+      },
+    );
+    const short = estimateImpact(baseline);
+    const long = estimateImpact({ ...baseline, usage: usage.chat(4000, 800) });
+    expect(base.requests).toBe(4);
+    expect(base.totals.energyKwh).toBeCloseTo(
+      3 * short.energyKwh + long.energyKwh,
+      12,
+    );
+    // batchSize is added next to the baseline PUE rather than replacing it.
+    expect(variants[0]?.results[0]?.powerBreakdown.pue).toBe(1.2);
+    expect(variants[0]?.totals.energyKwh).toBeCloseTo(
+      base.totals.energyKwh / 4,
+      12,
+    );
+  });
+
+  it("attributes the change to each override and their interaction", () => {
+    const [variant] = compareScenarios(baseline, {
+      both: { gpuPowerW: 200, efficiency: { pue: 1.1 } },
+    }).variants;
+    expect(variant?.attribution.map((entry) => entry.field)).toEqual([
+      "gpuPowerW",
+      "efficiency.pue",
+    ]);
+    const explained = (variant?.attribution ?? []).reduce(
+      (sum, entry) => sum + entry.delta.energyKwh,
+      0,
+    );
+    expect(explained + (variant?.interaction.energyKwh ?? 0)).toBeCloseTo(
+      variant?.deltas.energyKwh.absolute ?? NaN,
+      12,
+    );
+    expect(variant?.interaction.energyKwh).not.toBeCloseTo(0, 12);
+  });
+
+  it("rejects an empty traffic mix and non-positive counts", () => {
+    expect(() => compareScenarios(baseline, {}, { traffic: [] })).toThrow(
+      ImpactValidationError,
+    );
+    expect(() =>
+      compareScenarios(baseline, {}, { traffic: [{ count: 0 }] }),
+    ).toThrow(/traffic\[0\]\.count/);
+  });
+});
@@ -0,0 +1,118 @@
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  ImpactValidationError,
+  estimateImpact,
+  setWarningSink,
+  usage,
+  validateImpactInputs,
+} from "./index";
+
+const chat = usage.chat(1000, 200);
+
+afterEach(() => setWarningSink());
+
+describe("prefill and decode throughput", () => {
+  it("times prompt and generated tokens at their own rates", () => {
+    const result = estimateImpact({
+      gpuPowerW: 300,
+      region: "fr",
+      usage: chat,
+      throughput: { inputTokensPerSecond: 1000, outputTokensPerSecond: 50 },
+    });
+    expect(result.processingTimeSeconds).toBeCloseTo(1 + 4);
+  });
+
+  it("falls back to tokensPerSecond for a missing rate", () => {
+    const result = estimateImpact({
+      gpuPowerW: 300,
+      region: "fr",
+      usage: chat,
+      throughput: { tokensPerSecond: 100, outputTokensPerSecond: 50 },
+    });
+    expect(result.processingTimeSeconds).toBeCloseTo(10 + 4);
+  });
+
+  it("replaces prefill time with a measured time to first token", () => {
+    const result = estimateImpact({
+      gpuPowerW: 300,
+      region: "fr",
+      usage: chat,
+      throughput: {
+        timeToFirstTokenSeconds: 0.5,
+        inputTokensPerSecond: 1000,
+        outputTokensPerSecond: 50,
+      },
+    });
+    expect(result.processingTimeSeconds).toBeCloseTo(0.5 + 4);
+  });
+});
+
+describe("per-token energy", () => {
+  const perToken = {
+    region: "fr",
+    usage: chat,
+    efficiency: { pue: 1.2 },
+    throughput: {
+      energyJoulesPerInputToken: 0.01,
+      energyJoulesPerOutputToken: 0.1,
+    },
+  };
+
+  it("applies PUE to token energy without a power source", () => {
+    const result = estimateImpact(perToken);
+    expect(result.energyKwh).toBeCloseTo((30 * 1.2) / 3_600_000, 12);
+    expect(result.effectivePowerW).toBe(0);
+    expect(validateImpactInputs(perToken, { strict: true }).valid).toBe(true);
+  });
+
+  it("needs no power source for an energy override", () => {
+    const input = { region: "fr", energy: { energyKwh: 0.5 } };
+    expect(estimateImpact(input).energyKwh).toBe(0.5);
+    expect(validateImpactInputs(input, { strict: true }).valid).toBe(true);
+  });
+
+  it("still requires power when energy comes from time", () => {
+    expect(() =>
+      estimateImpact({
+        region: "fr",
+        usage: chat,
+        throughput: { tokensPerSecond: 100 },
+      }),
+    ).toThrow(ImpactValidationError);
+  });
+
+  it("flags embodied carbon that has no processing time", () => {
+    const warnings: string[] = [];
+    setWarningSink((warning) => warnings.push(warning.path));
+    const input = {
+      ...perToken,
+      embodied: { hardwareCo2Kg: 1500, lifetimeYears: 4 },
+    };
+    expect(estimateImpact(input).embodiedCo2Grams).toBe(0);
+    expect(warnings).toEqual(["embodied"]);
+    expect(() => estimateImpact(input, { strict: true })).toThrow(
+      ImpactValidationError,
+    );
+  });
+});
+
+describe("zero output tokens", () => {
+  // Tool-call-only turns generate no text; only the prompt is costed.
+  const toolCall = {
+    gpuPowerW: 300,
+    region: "fr",
+    usage: usage.chat(1000, 0),
+    throughput: { inputTokensPerSecond: 1000, outputTokensPerSecond: 50 },
+  };
+
+  it("costs only the prompt", () => {
+    expect(estimateImpact(toolCall).processingTimeSeconds).toBeCloseTo(1);
+    expect(validateImpactInputs(toolCall, { strict: true }).valid).toBe(true);
+  });
+
+  it("still rejects negative output tokens", () => {
+    expect(() =>
+      estimateImpact({ ...toolCall, usage: usage.chat(1000, -1) }),
+    ).toThrow(ImpactValidationError);
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import {
+  ImpactValidationError,
+  estimateImpact,
+  usage,
+  type ImpactInputs,
+  type ThroughputConfig,
+} from "./index";
+
+const throughput: ThroughputConfig = {
+  inputTokensPerSecond: 1000,
+  outputTokensPerSecond: 50,
+};
+const input: ImpactInputs = { gpuPowerW: 300, throughput };
+
+describe("cached and reasoning tokens", () => {
+  it("weights cached input at 0.1 of a prompt token by default", () => {
+    const { processingTimeSeconds, usageBreakdown } = estimateImpact({
+      ...input,
+      usage: usage.chat(2000, 100, { cachedInputTokens: 1500 }),
+    });
+    expect(usageBreakdown?.components.input).toEqual({
+      units: 500,
+      seconds: 0.5,
+    });
+    expect(usageBreakdown?.components.cachedInput).toEqual({
+      units: 1500,
+      seconds: 0.15,
+    });
+    expect(processingTimeSeconds).toBeCloseTo(0.5 + 0.15 + 2, 12);
+  });
+
+  it("weights reasoning tokens against regular output tokens", () => {
+    const { usageBreakdown } = estimateImpact({
+      ...input,
+      throughput: { ...throughput, reasoningTokenWeight: 2 },
+      usage: usage.chat(100, 100, { reasoningTokens: 40 }),
+    });
+    expect(usageBreakdown?.components.output?.seconds).toBeCloseTo(1.2, 12);
+    expect(usageBreakdown?.components.reasoning?.seconds).toBeCloseTo(1.6, 12);
+  });
+
+  it("rejects details larger than the token counts they are part of", () => {
+    expect(() =>
+      estimateImpact({
+        ...input,
+        usage: usage.chat(100, 10, { cachedInputTokens: 101 }),
+      }),
+    ).toThrow(ImpactValidationError);
+    expect(() =>
+      estimateImpact({
+        ...input,
+        usage: usage.chat(100, 10, { reasoningTokens: 11 }),
+      }),
+    ).toThrow(/reasoningTokens must not exceed outputTokens/);
+  });
+});
+
+describe("multimodal inputs and tool calls", () => {
+  it("adds encoder time and tool call overhead", () => {
+    const { processingTimeSeconds, usageBreakdown } = estimateImpact({
+      ...input,
+      throughput: {
+        ...throughput,
+        imageInputsPerSecond: 4,
+        audioInputSecondsPerSecond: 20,
+        toolCallOverheadSeconds: 0.3,
+      },
+      usage: usage.chat(1000, 50, {
+        imageInputs: 2,
+        audioInputSeconds: 30,
+        toolCalls: 2,
+      }),
+    });
+    expect(usageBreakdown?.components.imageInput?.seconds).toBe(0.5);
+    expect(usageBreakdown?.components.audioInput?.seconds).toBe(1.5);
+    expect(usageBreakdown?.components.toolCalls?.seconds).toBe(0.6);
+    expect(processingTimeSeconds).toBeCloseTo(1 + 1 + 0.5 + 1.5 + 0.6, 12);
+  });
+
+  it("requires the matching rate when a detail is timed", () => {
+    expect(() =>
+      estimateImpact({
+        ...input,
+        throughput: { tokensPerSecond: 100, imageInputsPerSecond: 0 },
+        usage: usage.chat(100, 10, { imageInputs: 1 }),
+      }),
+    ).toThrow(/throughput.imageInputsPerSecond/);
+  });
+
+  it("uses per-unit energy coefficients for every component", () => {
+    const { energyKwh, usageBreakdown } = estimateImpact({
+      usage: usage.chat(1000, 100, {
+        cachedInputTokens: 500,
+        imageInputs: 2,
+      }),
+      throughput: {
+        energyJoulesPerInputToken: 0.2,
+        energyJoulesPerOutputToken: 2,
+        energyJoulesPerImageInput: 50,
+      },
+    });
+    expect(
+      usageBreakdown?.components.cachedInput?.deviceEnergyJoules,
+    ).toBeCloseTo(500 * 0.1 * 0.2, 12);
+    const joules = 500 * 0.2 + 500 * 0.02 + 100 * 2 + 2 * 50;
+    expect(energyKwh).toBeCloseTo(joules / 3_600_000, 12);
+  });
+});
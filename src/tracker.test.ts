@@ -0,0 +1,88 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  FootprintTracker,
+  estimateImpact,
+  usage,
+  type ImpactInputs,
+} from "./index";
+
+const input: ImpactInputs = {
+  gpuPowerW: 300,
+  region: "fr",
+  usage: usage.chat(1000, 200),
+  throughput: { tokensPerSecond: 100 },
+};
+const result = estimateImpact(input);
+
+describe("FootprintTracker", () => {
+  it("keeps running totals overall and per label", () => {
+    const tracker = new FootprintTracker({ labels: { app: "search" } });
+    tracker.track(input, { tenant: "acme" });
+    tracker.record(result, { tenant: "globex" });
+    tracker.record(result, { tenant: "acme" });
+
+    expect(tracker.getTotals().count).toBe(3);
+    expect(tracker.getTotals().co2Grams).toBeCloseTo(result.co2Grams * 3);
+    const byTenant = tracker.getTotalsBy("tenant");
+    expect(byTenant.acme?.count).toBe(2);
+    expect(byTenant.globex?.count).toBe(1);
+    expect(tracker.getTotalsBy("app").search?.count).toBe(3);
+  });
+
+  it("returns copies that do not change its state", () => {
+    const tracker = new FootprintTracker();
+    tracker.record(result, { tenant: "acme" });
+
+    tracker.getTotals().gridDatasetIds.push("tampered");
+    tracker.getTotalsBy("tenant").acme!.gridDatasetIds.push("tampered");
+    const snapshot = tracker.snapshot();
+    snapshot.totals.gridDatasetIds.push("tampered");
+    snapshot.byLabel.tenant!.acme!.count = 99;
+
+    expect(tracker.getTotals().gridDatasetIds).toEqual(["owid-2025"]);
+    expect(tracker.snapshot().byLabel.tenant?.acme).toMatchObject({
+      count: 1,
+      gridDatasetIds: ["owid-2025"],
+    });
+  });
+
+  it("retains at most maxEntries records but counts all of them", () => {
+    const tracker = new FootprintTracker({ maxEntries: 2 });
+    for (let i = 0; i < 5; i++) {
+      tracker.record(result, {}, { timestamp: i });
+    }
+    expect(tracker.getRecords().map((entry) => entry.timestamp)).toEqual([
+      3, 4,
+    ]);
+    expect(tracker.getTotals().count).toBe(5);
+  });
+
+  it("closes the window after windowMs and emits the snapshot", () => {
+    let now = 0;
+    const tracker = new FootprintTracker({ windowMs: 1000, now: () => now });
+    const onReset = vi.fn();
+    tracker.on("reset", onReset);
+
+    tracker.record(result);
+    now = 1000;
+    tracker.record(result);
+
+    expect(onReset).toHaveBeenCalledTimes(1);
+    expect(onReset.mock.calls[0]?.[0]).toMatchObject({
+      windowStart: 0,
+      takenAt: 1000,
+      totals: { count: 1 },
+    });
+    expect(tracker.getTotals().count).toBe(1);
+  });
+
+  it("unsubscribes listeners", () => {
+    const tracker = new FootprintTracker();
+    const onRecord = vi.fn();
+    const off = tracker.on("record", onRecord);
+    tracker.record(result);
+    off();
+    tracker.record(result);
+    expect(onRecord).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import {
+  FootprintError,
+  ImpactValidationError,
+  estimateImpact,
+  validateImpactInputs,
+  type ImpactInputs,
+} from "./index";
+
+const input: ImpactInputs = { gpuPowerW: 300, processingTimeSeconds: 10 };
+
+describe("validateImpactInputs", () => {
+  it("reports soft issues as warnings without failing", () => {
+    const result = validateImpactInputs({
+      ...input,
+      region: "atlantis",
+      efficiency: { pue: 0.5 },
+    });
+    expect(result.valid).toBe(true);
+    expect(
+      result.issues.map(({ path, code, severity }) => [path, code, severity]),
+    ).toEqual([
+      ["efficiency.pue", "clamped", "warning"],
+      ["region", "unknown_region", "warning"],
+    ]);
+  });
+
+  it("collects every hard error instead of stopping at the first", () => {
+    const result = validateImpactInputs({
+      gpuPowerW: -1,
+      processingTimeSeconds: 0,
+    });
+    expect(result.valid).toBe(false);
+    expect(result.issues.map((issue) => issue.path)).toEqual([
+      "gpuPowerW",
+      "processingTimeSeconds",
+    ]);
+  });
+
+  it("turns soft issues into errors in strict mode", () => {
+    const result = validateImpactInputs(
+      { ...input, region: "atlantis" },
+      { strict: true },
+    );
+    expect(result.valid).toBe(false);
+    expect(result.issues).toEqual([
+      expect.objectContaining({ code: "unknown_region", severity: "error" }),
+    ]);
+  });
+});
+
+describe("ImpactValidationError", () => {
+  it("is thrown by estimateImpact with structured issues", () => {
+    let error: unknown;
+    try {
+      estimateImpact({ ...input, gpuPowerW: -1 });
+    } catch (caught) {
+      error = caught;
+    }
+    expect(error).toBeInstanceOf(ImpactValidationError);
+    expect(error).toBeInstanceOf(FootprintError);
+    expect((error as ImpactValidationError).issues).toEqual([
+      expect.objectContaining({ path: "gpuPowerW", code: "not_positive" }),
+    ]);
+  });
+});
@@ -0,0 +1,74 @@
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  DEFAULT_OFFSITE_WATER_L_PER_KWH,
+  DEFAULT_ONSITE_WUE_L_PER_KWH,
+  estimateImpact,
+  setWarningSink,
+  type ImpactInputs,
+  type ValidationIssue,
+} from "./index";
+
+const input: ImpactInputs = {
+  gpuPowerW: 400,
+  processingTimeSeconds: 60,
+  region: "se",
+  efficiency: { pue: 1.2 },
+};
+
+describe("water footprint", () => {
+  afterEach(() => setWarningSink());
+
+  it("adds on-site WUE on IT energy and off-site water on total energy", () => {
+    const result = estimateImpact({
+      ...input,
+      water: { onsiteWueLitersPerKwh: 1.5, offsiteLitersPerKwh: 2 },
+    });
+    expect(result.waterIntensity).toEqual({
+      onsiteWueLitersPerKwh: 1.5,
+      offsiteLitersPerKwh: 2,
+    });
+    expect(result.waterLiters).toBeCloseTo(
+      (result.energyKwh / 1.2) * 1.5 + result.energyKwh * 2,
+      12,
+    );
+  });
+
+  it("prefers explicit values, then the resolver, then region defaults", () => {
+    const result = estimateImpact({
+      ...input,
+      water: {
+        onsiteWueLitersPerKwh: 0.5,
+        waterIntensityResolver: ({ region }) => ({
+          onsiteWueLitersPerKwh: 9,
+          offsiteLitersPerKwh: region === "se" ? 3 : 4,
+        }),
+      },
+    });
+    expect(result.waterIntensity).toEqual({
+      onsiteWueLitersPerKwh: 0.5,
+      offsiteLitersPerKwh: 3,
+    });
+  });
+
+  it("falls back to the region default for non-positive values", () => {
+    const warnings: ValidationIssue[] = [];
+    setWarningSink((warning) => warnings.push(warning));
+    const result = estimateImpact({
+      ...input,
+      water: { offsiteLitersPerKwh: 0 },
+    });
+    expect(result.waterIntensity).toEqual({
+      onsiteWueLitersPerKwh:
+        DEFAULT_ONSITE_WUE_L_PER_KWH.se ?? DEFAULT_ONSITE_WUE_L_PER_KWH.global,
+      offsiteLitersPerKwh:
+        DEFAULT_OFFSITE_WATER_L_PER_KWH.se ??
+        DEFAULT_OFFSITE_WATER_L_PER_KWH.global,
+    });
+    expect(warnings).toEqual([
+      expect.objectContaining({
+        path: "water.offsiteLitersPerKwh",
+        code: "ignored",
+      }),
+    ]);
+  });
+});